@@ -1,66 +1,206 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { AnalysisResult, RawCSVRow, VideoEarning, LabelSummary } from './types';
-import { getAIInsights } from './services/geminiService';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { AnalysisResult, AnalysisOptions, ParsedFile, BonusRule, ColumnPreset, BackupRestoreMode, WorkspaceSettings, Editor, PayoutStatement, ExchangeRateEntry, RateBasis, CurrencyRates, PayoutCurrency, UrlViewState, EarningTier, AIProviderConfig, InsightResult, InsightFailure, ChatMessage, FilterSpec } from './types';
+import { DEFAULT_AI_CONFIG, DEFAULT_INSIGHT_LANGUAGE, INSIGHT_ERROR_MESSAGES, generateInsight, providerLabel } from './services/insightService';
+import { isStructuredInsight } from './services/insightSchemaService';
+import { createChatMessage, runChatTurn } from './services/chatService';
+import { computePayouts } from './services/bonusService';
+import { hasRequiredColumns, isMappingComplete, resolveMapping } from './services/columnMappingService';
+import { ACCEPTED_FILE_TYPES, ParsedTable, isSpreadsheetFile, readCSVPreview, readWorkbook, sheetToTable } from './services/fileParserService';
+import { detectParseSettings } from './services/localeService';
+import { AnalysisCancelledError, AnalysisProgress, AnalysisRun, runAnalysis } from './services/analysisRunner';
+import { applyFilters, computeEfficiencyStats, countHashtags, findHashtagPairs, mergeTitleMatch, resolveConflict, summarizeHashtags } from './services/analyticsService';
+import { loadAnalyses, loadSources, migrateLegacyHistory, saveSources, syncAnalyses } from './services/storageService';
+import { describeFilters, lockPayout, recordConflictResolution, recordRecompute, recordTitleMerge, unlockPayout } from './services/auditService';
+import { buildStatements, findUnassignedLabels, printStatement, statementToSheet, toSheetName } from './services/rosterService';
+import { computeLabelRates, createRateResolver, latestDateKey, weightedRate } from './services/exchangeRateService';
+import { formatAmount, formatCurrency, formatRate, rateFor } from './services/currencyService';
+import { decodeViewState, differsOnlyInInputs, encodeViewState } from './services/urlStateService';
+import { clusterTopics, suggestTopicCount, topicName } from './services/topicService';
+import { DEFAULT_EARNING_TIERS, DEFAULT_LOW_EARNING_THRESHOLD, describeTierRange, findTier, summarizeTiers } from './services/tierService';
+import { BackupFormatError, createBackup, downloadBackup, parseBackup, restoreHistory, restoreSettings } from './services/backupService';
+import HistoryComparison from './components/HistoryComparison';
+import TrendChart from './components/TrendChart';
+import BonusRulesEditor from './components/BonusRulesEditor';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import SheetPicker, { PendingWorkbook } from './components/SheetPicker';
+import ParseWarningsPanel from './components/ParseWarningsPanel';
+import ReconciliationPanel from './components/ReconciliationPanel';
+import StorageManager from './components/StorageManager';
+import EditorRoster from './components/EditorRoster';
+import PayoutLockPanel from './components/PayoutLockPanel';
+import ExchangeRateTable from './components/ExchangeRateTable';
+import CurrencySettings from './components/CurrencySettings';
+import VideoTable from './components/VideoTable';
+import EarningTiersPanel from './components/EarningTiersPanel';
+import HashtagReport from './components/HashtagReport';
+import TopicClusters from './components/TopicClusters';
+import AIProviderSettings from './components/AIProviderSettings';
+import InsightCards from './components/InsightCards';
+import AIChatPanel from './components/AIChatPanel';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import * as XLSX from 'xlsx';
 
-// Global PapaParse availability from script tag
-declare const Papa: any;
-
 const App: React.FC = () => {
   const [data, setData] = useState<AnalysisResult | null>(null);
   const [history, setHistory] = useState<AnalysisResult[]>([]);
+  const persistedHistoryRef = useRef<AnalysisResult[] | null>(null);
+  const urlReadyRef = useRef(false);
   const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
   const [selectedHashtags, setSelectedHashtags] = useState<string[]>([]);
   const [hashtagSearchQuery, setHashtagSearchQuery] = useState("");
   const [showFilter, setShowFilter] = useState(true);
   const [showHashtagFilter, setShowHashtagFilter] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
   const [hideLowEarnings, setHideLowEarnings] = useState<boolean>(false);
   const [hideLowEarningLabels, setHideLowEarningLabels] = useState<boolean>(false);
   const [exchangeRate, setExchangeRate] = useState<number>(25400); // Default exchange rate
   const [bonusPercentage, setBonusPercentage] = useState<number>(5); // Default bonus %
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateEntry[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('earning_analyst_exchange_rates') || '[]');
+    } catch (e) {
+      console.error("Failed to parse exchange rates", e);
+      return [];
+    }
+  });
+  const [currencyRates, setCurrencyRates] = useState<CurrencyRates>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('earning_analyst_currency_rates') || '{}');
+    } catch (e) {
+      console.error("Failed to parse currency rates", e);
+      return {};
+    }
+  });
+  const [lowEarningThreshold, setLowEarningThreshold] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('earning_analyst_low_threshold'));
+    return saved > 0 ? saved : DEFAULT_LOW_EARNING_THRESHOLD;
+  });
+  const [earningTiers, setEarningTiers] = useState<EarningTier[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('earning_analyst_earning_tiers') || 'null') || DEFAULT_EARNING_TIERS;
+    } catch (e) {
+      console.error("Failed to parse earning tiers", e);
+      return DEFAULT_EARNING_TIERS;
+    }
+  });
+  const [rateBasis, setRateBasis] = useState<RateBasis>('videoDate');
+  const [payoutDate, setPayoutDate] = useState(""); // empty = last day in the data
+  const [bonusRules, setBonusRules] = useState<BonusRule[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('earning_analyst_bonus_rules') || '[]');
+    } catch (e) {
+      console.error("Failed to parse bonus rules", e);
+      return [];
+    }
+  });
+  const [editors, setEditors] = useState<Editor[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('earning_analyst_editors') || '[]');
+    } catch (e) {
+      console.error("Failed to parse editors", e);
+      return [];
+    }
+  });
   const [loading, setLoading] = useState(false);
   const [isAiLoading, setIsAiLoading] = useState(false);
+  const [aiError, setAiError] = useState<{ analysisId: string; result: InsightResult } | null>(null);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [chatLoadingId, setChatLoadingId] = useState<string | null>(null);
+  const [chatError, setChatError] = useState<{ analysisId: string; result: InsightFailure } | null>(null);
+  const [aiConfig, setAiConfig] = useState<AIProviderConfig>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('earning_analyst_ai_provider') || 'null') || DEFAULT_AI_CONFIG;
+    } catch (e) {
+      console.error("Failed to parse AI provider settings", e);
+      return DEFAULT_AI_CONFIG;
+    }
+  });
   const [missingColumns, setMissingColumns] = useState<string[]>([]);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const analysisRunRef = useRef<AnalysisRun | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<ParsedFile[] | null>(null);
+  const [recomputeTargetId, setRecomputeTargetId] = useState<string | null>(null);
+  const [showStorage, setShowStorage] = useState(false);
+  const [pendingWorkbooks, setPendingWorkbooks] = useState<{ parsedFiles: ParsedFile[]; workbooks: PendingWorkbook[] } | null>(null);
+  const [columnPresets, setColumnPresets] = useState<ColumnPreset[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('earning_analyst_column_presets') || '[]');
+    } catch (e) {
+      console.error("Failed to parse column presets", e);
+      return [];
+    }
+  });
 
-  // Load history from localStorage on mount
+  // Load history from IndexedDB on mount, moving over any localStorage history first
   useEffect(() => {
-    const savedHistory = localStorage.getItem('earning_analyst_history');
-    if (savedHistory) {
-      try {
-        const parsed = JSON.parse(savedHistory);
-        setHistory(parsed);
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
-    }
+    migrateLegacyHistory()
+      .then(loadAnalyses)
+      .then(saved => {
+        persistedHistoryRef.current = saved;
+        setHistory(saved);
+        const viewState = decodeViewState(window.location.hash);
+        if (viewState.analysisId && !saved.some(h => h.id === viewState.analysisId)) {
+          alert("Phân tích trong liên kết không có trong lịch sử của trình duyệt này.");
+        }
+        applyViewState(viewState, saved);
+      })
+      .catch(e => {
+        console.error("Failed to load history", e);
+        persistedHistoryRef.current = [];
+      })
+      .finally(() => {
+        urlReadyRef.current = true;
+      });
   }, []);
 
-  // Save history to localStorage whenever it changes
+  // Back/forward restores the view stored in that history entry's hash
   useEffect(() => {
-    localStorage.setItem('earning_analyst_history', JSON.stringify(history));
+    const onPopState = () => applyViewState(decodeViewState(window.location.hash), persistedHistoryRef.current || []);
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  // Persist only the entries that changed since the last write
+  useEffect(() => {
+    const previous = persistedHistoryRef.current;
+    if (!previous || previous === history) return;
+    persistedHistoryRef.current = history;
+    syncAnalyses(previous, history).catch(e => console.error("Failed to save history", e));
   }, [history]);
 
-  const formatVND = (amount: number) => {
-    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(amount);
-  };
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_bonus_rules', JSON.stringify(bonusRules));
+  }, [bonusRules]);
 
-  const extractHashtags = (text: string): string[] => {
-    if (!text) return [];
-    const matches = text.match(/#[\p{L}\p{N}_]+/gu);
-    return matches ? Array.from(new Set(matches.map(tag => tag.toLowerCase()))) : [];
-  };
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_column_presets', JSON.stringify(columnPresets));
+  }, [columnPresets]);
 
-  const parseEarning = (val: any): number => {
-    if (val === undefined || val === null || val === '') return 0;
-    if (typeof val === 'number') return val;
-    if (typeof val === 'string') {
-      return parseFloat(val.replace(/,/g, '')) || 0;
-    }
-    return 0;
-  };
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_editors', JSON.stringify(editors));
+  }, [editors]);
+
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_exchange_rates', JSON.stringify(exchangeRates));
+  }, [exchangeRates]);
+
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_currency_rates', JSON.stringify(currencyRates));
+  }, [currencyRates]);
+
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_ai_provider', JSON.stringify(aiConfig));
+  }, [aiConfig]);
+
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_low_threshold', String(lowEarningThreshold));
+  }, [lowEarningThreshold]);
+
+  useEffect(() => {
+    localStorage.setItem('earning_analyst_earning_tiers', JSON.stringify(earningTiers));
+  }, [earningTiers]);
 
   // Helper functions for filtering
   const selectAllLabels = () => {
@@ -79,285 +219,593 @@ const App: React.FC = () => {
     );
   };
 
+  // Narrows the view to one label, e.g. from an AI insight card
+  const focusLabel = (label: string) => {
+    if (payoutLock) return;
+    setSelectedLabels([label]);
+  };
+
   const toggleHashtag = (tag: string) => {
     setSelectedHashtags(prev => 
       prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]
     );
   };
 
-  const processCSV = (results: any, currentFileName: string) => {
-    const headers = results.meta.fields || [];
-    const rows: RawCSVRow[] = results.data;
-    const videoMap = new Map<string, VideoEarning>();
-    const labelMap = new Map<string, { total: number; count: Set<string> }>();
-    const hashtagSet = new Set<string>();
-    const dates: Date[] = [];
-
-    const missing: string[] = [];
-    const hasPostId = headers.some((h: string) => ["Post ID", "Video asset ID", "ID tài sản video"].includes(h));
-    const hasDescription = headers.some((h: string) => ["Description", "Mô tả"].includes(h));
-
-    if (!hasPostId) missing.push("Post ID / ID tài sản video");
-    if (!hasDescription) missing.push("Description / Mô tả");
-    
-    setMissingColumns(missing);
-
-    rows.forEach((row) => {
-      const title = (row["Tiêu đề"] || row["Title"])?.trim();
-      const label = (row["Nhãn tùy chỉnh"] || row["Custom labels"])?.trim() || "Không có nhãn";
-      const assetId = (row["Post ID"] || row["Video asset ID"] || row["ID tài sản video"])?.toString().trim();
-      const dateStr = (row["Ngày"] || row["Date"])?.trim();
-      const description = row["Description"] || row["Mô tả"] || "";
-      const rowHashtags = extractHashtags(description);
-      
-      const earningVN = parseEarning(row["Thu nhập ước tính khi tham gia chương trình kiếm tiền từ nội dung"]);
-      const earningEN = parseEarning(row["Approximate content monetization earnings"]);
-      const earning = earningVN + earningEN;
-      
-      if (dateStr) {
-        const parsedDate = new Date(dateStr);
-        if (!isNaN(parsedDate.getTime())) {
-          dates.push(parsedDate);
-        }
+  const processCSV = async (parsedFiles: ParsedFile[], options: AnalysisOptions = {}) => {
+    setAnalysisProgress({ rowsProcessed: 0, progress: 0 });
+    const run = runAnalysis(parsedFiles, setAnalysisProgress, { ...options, lowEarningThreshold });
+    analysisRunRef.current = run;
+
+    try {
+      const computed = await run.promise;
+      const previous = options.id ? history.find(h => h.id === options.id) : undefined;
+      const newResult = previous ? recordRecompute(previous, computed) : computed;
+      saveSources(newResult.id, parsedFiles).catch(e => console.error("Failed to save source data", e));
+      setMissingColumns(newResult.missingColumns);
+      setData(newResult);
+      // A recomputed entry keeps its id and replaces the old version
+      setHistory(prev => [newResult, ...prev.filter(h => h.id !== newResult.id)]);
+      setSelectedLabels(newResult.labelSummaries.map(l => l.label));
+      setSelectedHashtags([]);
+      handleAIAnalysis(newResult, bonusPercentage, {
+        selectedLabels: newResult.labelSummaries.map(l => l.label),
+        selectedHashtags: [],
+        hideLowEarnings,
+        hideLowEarningLabels,
+        lowEarningThreshold
+      });
+    } catch (err) {
+      if (!(err instanceof AnalysisCancelledError)) {
+        console.error(err);
+        alert("Lỗi khi xử lý dữ liệu. Vui lòng kiểm tra định dạng tệp.");
       }
+    } finally {
+      if (analysisRunRef.current === run) analysisRunRef.current = null;
+      setAnalysisProgress(null);
+      setLoading(false);
+    }
+  };
 
-      if (!title) return;
+  const cancelAnalysis = () => {
+    analysisRunRef.current?.cancel();
+  };
 
-      const key = `${title}-${label}`;
-      if (videoMap.has(key)) {
-        const existing = videoMap.get(key)!;
-        existing.totalEarning += earning;
-        if (!existing.assetId && assetId) {
-          existing.assetId = assetId;
-        }
-        rowHashtags.forEach(tag => {
-          if (!existing.hashtags.includes(tag)) {
-            existing.hashtags.push(tag);
-          }
-        });
-      } else {
-        videoMap.set(key, { 
-          title, 
-          label, 
-          totalEarning: earning, 
-          assetId, 
-          date: dateStr, 
-          hashtags: rowHashtags 
-        });
-      }
+  // A locked period is shown with the values it was paid with, not the current settings
+  const payoutLock = data?.payoutLock;
+  const activeExchangeRate = payoutLock ? payoutLock.exchangeRate : exchangeRate;
+  const activeBonusPercentage = payoutLock ? payoutLock.bonusPercentage : bonusPercentage;
+  const activeBonusRules = payoutLock ? payoutLock.bonusRules : bonusRules;
+  const activeEditors = payoutLock ? payoutLock.editors : editors;
+  const activeExchangeRates = payoutLock ? payoutLock.exchangeRates || [] : exchangeRates;
+  const activeRateBasis = payoutLock ? payoutLock.rateBasis || 'payoutDate' : rateBasis;
+  const defaultPayoutDate = useMemo(() => data ? latestDateKey(data.videoEarnings) || "" : "", [data]);
+  const activePayoutDate = payoutLock ? payoutLock.payoutDate || "" : payoutDate || defaultPayoutDate;
+  const activeCurrencyRates = payoutLock?.currencyRates || currencyRates;
+  const outputCurrency: PayoutCurrency = data?.payoutCurrency || 'VND';
+  const activeLowEarningThreshold = payoutLock ? payoutLock.filters.lowEarningThreshold ?? DEFAULT_LOW_EARNING_THRESHOLD : lowEarningThreshold;
+  const activeEarningTiers = payoutLock?.earningTiers || earningTiers;
+
+  const activeFilters: FilterSpec = payoutLock ? payoutLock.filters : { selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels, lowEarningThreshold };
 
-      rowHashtags.forEach(tag => hashtagSet.add(tag));
+  const filteredData = useMemo(() => {
+    if (!data) return null;
+    return applyFilters(data, activeFilters);
+  }, [data, payoutLock, selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels, lowEarningThreshold]);
 
-      if (!labelMap.has(label)) {
-        labelMap.set(label, { total: 0, count: new Set() });
-      }
-      const lblData = labelMap.get(label)!;
-      lblData.total += earning;
-      lblData.count.add(title);
-    });
+  const tierSummaries = useMemo(
+    () => filteredData ? summarizeTiers(filteredData.videoEarnings, activeEarningTiers) : [],
+    [filteredData, activeEarningTiers]
+  );
 
-    const videoEarnings = Array.from(videoMap.values()).sort((a, b) => b.totalEarning - a.totalEarning);
-    const lowEarningCount = videoEarnings.filter(v => v.totalEarning < 1).length;
+  const payouts = useMemo(() => {
+    if (!filteredData) return [];
+    if (payoutLock) return payoutLock.payouts;
+    return computePayouts(filteredData.labelSummaries, filteredData.videoEarnings, bonusRules, bonusPercentage);
+  }, [filteredData, payoutLock, bonusRules, bonusPercentage]);
 
-    const labelSummaries: LabelSummary[] = Array.from(labelMap.entries()).map(([label, info]) => ({
-      label,
-      totalEarning: info.total,
-      videoCount: info.count.size
-    })).sort((a, b) => b.totalEarning - a.totalEarning);
+  const totalBonus = useMemo(() => payouts.reduce((acc, p) => acc + p.bonus, 0), [payouts]);
 
-    const grandTotal = labelSummaries.reduce((acc, curr) => acc + curr.totalEarning, 0);
+  const resolveRate = useMemo(
+    () => createRateResolver(activeExchangeRates, activeRateBasis, activePayoutDate || undefined, activeExchangeRate),
+    [activeExchangeRates, activeRateBasis, activePayoutDate, activeExchangeRate]
+  );
 
-    let startDate, endDate;
-    if (dates.length > 0) {
-      const minDate = new Date(Math.min(...dates.map(d => d.getTime())));
-      const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
-      const formatDate = (d: Date) => d.toLocaleDateString('vi-VN');
-      startDate = formatDate(minDate);
-      endDate = formatDate(maxDate);
-    }
+  // Effective VND rate per label; a locked period keeps the rates it was paid at
+  const labelRates = useMemo(() => {
+    if (payoutLock?.labelRates) return payoutLock.labelRates;
+    return filteredData ? computeLabelRates(filteredData.videoEarnings, resolveRate) : {};
+  }, [payoutLock, filteredData, resolveRate]);
 
-    const newResult: AnalysisResult = { 
-      id: crypto.randomUUID(),
-      fileName: currentFileName,
-      timestamp: Date.now(),
-      videoEarnings, 
-      labelSummaries, 
-      grandTotal,
-      lowEarningCount,
-      startDate,
-      endDate,
-      allHashtags: Array.from(hashtagSet).sort(),
-      aiInsight: null,
-      missingColumns: missing
-    };
-    
-    setData(newResult);
-    setHistory(prev => [newResult, ...prev.slice(0, 9)]); // Keep last 10
-    setSelectedLabels(labelSummaries.map(l => l.label));
-    setSelectedHashtags([]);
-    setLoading(false);
-    
-    handleAIAnalysis(newResult, bonusPercentage);
+  const rateForLabel = (label: string) => labelRates[label] ?? resolveRate(undefined);
+
+  // Units of the analysis' payout currency per USD for a label
+  const outputRateForLabel = (label: string) => rateFor(outputCurrency, rateForLabel(label), activeCurrencyRates);
+
+  const totalBonusOutput = payouts.reduce((acc, p) => acc + p.bonus * outputRateForLabel(p.label), 0);
+
+  const statements = useMemo(() => {
+    if (!filteredData) return [];
+    return buildStatements(activeEditors, payouts, filteredData.videoEarnings, label => labelRates[label] ?? resolveRate(undefined), activeCurrencyRates);
+  }, [activeEditors, payouts, filteredData, labelRates, resolveRate, activeCurrencyRates]);
+
+  const loadFromHistory = (item: AnalysisResult) => {
+    setData(item);
+    setMissingColumns(item.missingColumns || []);
+    if (item.payoutLock) {
+      setSelectedLabels(item.payoutLock.filters.selectedLabels);
+      setSelectedHashtags(item.payoutLock.filters.selectedHashtags);
+      setHideLowEarnings(item.payoutLock.filters.hideLowEarnings);
+      setHideLowEarningLabels(item.payoutLock.filters.hideLowEarningLabels);
+    } else {
+      setSelectedLabels(item.labelSummaries.map(l => l.label));
+      setSelectedHashtags([]);
+    }
+    setShowHistory(false);
   };
 
-  const filteredData = useMemo(() => {
-    if (!data) return null;
-    
-    let workingLabels = data.labelSummaries.filter(l => selectedLabels.includes(l.label));
-    if (hideLowEarningLabels) {
-      workingLabels = workingLabels.filter(l => l.totalEarning >= 1);
+  const applyViewState = (state: UrlViewState, entries: AnalysisResult[]) => {
+    if (state.bonusPercentage !== undefined) setBonusPercentage(state.bonusPercentage);
+    if (state.exchangeRate !== undefined) setExchangeRate(state.exchangeRate);
+    if (state.lowEarningThreshold !== undefined && state.lowEarningThreshold >= 0) setLowEarningThreshold(state.lowEarningThreshold);
+    if (!state.analysisId) {
+      setData(null);
+      setMissingColumns([]);
+      return;
     }
+    const target = entries.find(h => h.id === state.analysisId);
+    if (!target) return;
+    loadFromHistory(target);
+    if (target.payoutLock) return; // a locked period always shows its frozen filters
+    setSelectedLabels(state.selectedLabels ?? target.labelSummaries.map(l => l.label));
+    setSelectedHashtags(state.selectedHashtags);
+    setHideLowEarnings(state.hideLowEarnings);
+    setHideLowEarningLabels(state.hideLowEarningLabels);
+  };
 
-    const labelNamesToInclude = workingLabels.map(l => l.label);
-    let filteredVideos = data.videoEarnings.filter(v => labelNamesToInclude.includes(v.label));
-    
-    if (selectedHashtags.length > 0) {
-      filteredVideos = filteredVideos.filter(v => 
-        selectedHashtags.some(tag => v.hashtags.includes(tag))
-      );
+  // Mirror the view into the URL hash so a link or bookmark reopens it
+  useEffect(() => {
+    if (!urlReadyRef.current) return;
+    const hash = data
+      ? encodeViewState(
+          { analysisId: data.id, selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels, lowEarningThreshold, bonusPercentage, exchangeRate },
+          data.labelSummaries.map(l => l.label)
+        )
+      : '';
+    if (hash === window.location.hash) return;
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    if (differsOnlyInInputs(hash, window.location.hash)) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+  }, [data, selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels, lowEarningThreshold, bonusPercentage, exchangeRate]);
+
+  const replaceAnalysis = (updated: AnalysisResult) => {
+    setData(updated);
+    setHistory(prev => prev.map(h => h.id === updated.id ? updated : h));
+  };
+
+  const deleteHistoryEntries = (requestedIds: string[]) => {
+    const lockedCount = history.filter(h => requestedIds.includes(h.id) && h.payoutLock).length;
+    if (lockedCount > 0) alert(`${lockedCount} kỳ đã chốt không thể xóa. Hãy mở khóa trước.`);
+    const ids = requestedIds.filter(id => !history.some(h => h.id === id && h.payoutLock));
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    if (data && ids.includes(data.id)) {
+      setData(null);
+      setMissingColumns([]);
     }
+  };
+
+  const deleteFromHistory = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteHistoryEntries([id]);
+  };
 
-    if (hideLowEarnings) {
-      filteredVideos = filteredVideos.filter(v => v.totalEarning >= 1);
+  const recomputeAnalysis = async (id: string) => {
+    if (history.some(h => h.id === id && h.payoutLock)) {
+      alert("Kỳ này đã chốt. Hãy mở khóa trước khi tính lại.");
+      return;
     }
+    try {
+      const files = await loadSources(id);
+      if (!files) {
+        alert("Không còn dữ liệu gốc của phân tích này để tính lại.");
+        return;
+      }
+      setRecomputeTargetId(id);
+      setPendingFiles(files);
+      setShowHistory(false);
+    } catch (e) {
+      console.error("Failed to load source data", e);
+    }
+  };
 
-    const finalLabels = workingLabels.map(l => {
-      const videosForThisLabel = filteredVideos.filter(v => v.label === l.label);
-      return {
-        ...l,
-        totalEarning: videosForThisLabel.reduce((acc, v) => acc + v.totalEarning, 0),
-        videoCount: videosForThisLabel.length
-      };
-    })
-    .filter(l => l.videoCount > 0)
-    .sort((a, b) => b.totalEarning - a.totalEarning);
+  const currentSettings = (): WorkspaceSettings => ({
+    exchangeRate,
+    bonusPercentage,
+    bonusRules,
+    columnPresets,
+    editors,
+    exchangeRates,
+    rateBasis,
+    currencyRates,
+    lowEarningThreshold,
+    earningTiers,
+    activeAnalysisId: data?.id,
+    filters: data ? { selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels, lowEarningThreshold } : undefined
+  });
+
+  const handleExportBackup = () => {
+    downloadBackup(createBackup(history, currentSettings()));
+  };
 
-    const filteredTotal = finalLabels.reduce((acc, curr) => acc + curr.totalEarning, 0);
-    const filteredLowCount = filteredVideos.filter(v => v.totalEarning < 1).length;
+  const handleImportBackup = async (file: File, mode: BackupRestoreMode) => {
+    try {
+      const backup = parseBackup(await file.text());
+      const { history: nextHistory, skippedLocked } = restoreHistory(history, backup.history, mode);
+      const settings = restoreSettings(currentSettings(), backup.settings, mode);
+      setHistory(nextHistory);
+      setExchangeRate(settings.exchangeRate);
+      setBonusPercentage(settings.bonusPercentage);
+      setBonusRules(settings.bonusRules);
+      setColumnPresets(settings.columnPresets);
+      setEditors(settings.editors || []);
+      setExchangeRates(settings.exchangeRates || []);
+      if (settings.rateBasis) setRateBasis(settings.rateBasis);
+      setCurrencyRates(settings.currencyRates || {});
+      setLowEarningThreshold(settings.lowEarningThreshold ?? DEFAULT_LOW_EARNING_THRESHOLD);
+      setEarningTiers(settings.earningTiers || DEFAULT_EARNING_TIERS);
+
+      if (mode === 'replace') {
+        const active = nextHistory.find(h => h.id === backup.settings.activeAnalysisId);
+        if (active) {
+          loadFromHistory(active);
+          if (backup.settings.filters) {
+            setSelectedLabels(backup.settings.filters.selectedLabels);
+            setSelectedHashtags(backup.settings.filters.selectedHashtags);
+            setHideLowEarnings(backup.settings.filters.hideLowEarnings);
+            setHideLowEarningLabels(backup.settings.filters.hideLowEarningLabels);
+          }
+        } else {
+          setData(null);
+          setMissingColumns([]);
+        }
+      }
+      const lockedNote = skippedLocked.length > 0 ? ` ${skippedLocked.length} kỳ đã chốt được giữ nguyên, không lấy bản trong tệp.` : '';
+      alert(`Đã khôi phục ${backup.history.length - skippedLocked.length} phân tích từ bản sao lưu.${lockedNote}`);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof BackupFormatError ? err.message : "Không đọc được tệp sao lưu.");
+    }
+  };
 
+  const toParsedFile = (fileName: string, { headers, rows }: ParsedTable, file?: File): ParsedFile => {
+    const { mapping, presetId } = resolveMapping(headers, columnPresets);
+    const sampleRows = rows.slice(0, 50);
+    const detectedSettings = detectParseSettings(sampleRows, mapping);
     return {
-      ...data,
-      labelSummaries: finalLabels,
-      videoEarnings: filteredVideos,
-      grandTotal: filteredTotal,
-      lowEarningCount: filteredLowCount
+      fileName,
+      headers,
+      mapping,
+      presetId,
+      parseSettings: detectedSettings,
+      detectedSettings,
+      sampleRows,
+      // CSVs are re-read in full by the worker; sheets are already complete
+      ...(file ? { file } : { rows })
     };
-  }, [data, selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels]);
-
-  const loadFromHistory = (item: AnalysisResult) => {
-    setData(item);
-    setMissingColumns(item.missingColumns || []);
-    setSelectedLabels(item.labelSummaries.map(l => l.label));
-    setSelectedHashtags([]);
-    setShowHistory(false);
   };
 
-  const deleteFromHistory = (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    setHistory(prev => prev.filter(item => item.id !== id));
-    if (data?.id === id) {
-      setData(null);
-      setMissingColumns([]);
+  const continueWithParsedFiles = (parsedFiles: ParsedFile[]) => {
+    // Only stop at the mapping step when some column could not be recognised
+    // and no saved preset already covers the file
+    if (parsedFiles.every(f => isMappingComplete(f.mapping) || (f.presetId && hasRequiredColumns(f.mapping)))) {
+      processCSV(parsedFiles);
+    } else {
+      setPendingFiles(parsedFiles);
+      setLoading(false);
     }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = "";
+    if (files.length === 0) return;
 
     setLoading(true);
     setData(null);
     setMissingColumns([]);
     setSelectedLabels([]);
     setSelectedHashtags([]);
+    setPendingFiles(null);
+    setPendingWorkbooks(null);
 
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results: any) => processCSV(results, file.name),
-      error: (err: any) => {
-        console.error(err);
-        alert("Lỗi khi đọc file CSV. Vui lòng kiểm tra định dạng.");
+    try {
+      const parsedFiles: ParsedFile[] = [];
+      const multiSheetWorkbooks: PendingWorkbook[] = [];
+
+      for (const file of files) {
+        if (!isSpreadsheetFile(file)) {
+          parsedFiles.push(toParsedFile(file.name, await readCSVPreview(file), file));
+          continue;
+        }
+        const workbook = await readWorkbook(file);
+        if (workbook.SheetNames.length === 1) {
+          parsedFiles.push(toParsedFile(file.name, sheetToTable(workbook, workbook.SheetNames[0])));
+        } else {
+          multiSheetWorkbooks.push({ fileName: file.name, workbook });
+        }
+      }
+
+      if (multiSheetWorkbooks.length > 0) {
+        setPendingWorkbooks({ parsedFiles, workbooks: multiSheetWorkbooks });
         setLoading(false);
+      } else {
+        continueWithParsedFiles(parsedFiles);
       }
-    });
+    } catch (err) {
+      console.error(err);
+      alert("Lỗi khi đọc file. Vui lòng kiểm tra định dạng.");
+      setLoading(false);
+    }
+  };
+
+  const handleConfirmSheets = (selectedSheets: string[]) => {
+    if (!pendingWorkbooks) return;
+    const sheetFiles = pendingWorkbooks.workbooks.map(({ fileName, workbook }, i) =>
+      toParsedFile(`${fileName} [${selectedSheets[i]}]`, sheetToTable(workbook, selectedSheets[i]))
+    );
+    setPendingWorkbooks(null);
+    setLoading(true);
+    continueWithParsedFiles([...pendingWorkbooks.parsedFiles, ...sheetFiles]);
+  };
+
+  const handleConfirmMapping = (mappedFiles: ParsedFile[]) => {
+    setPendingFiles(null);
+    setData(null);
+    setLoading(true);
+    processCSV(mappedFiles, recomputeTargetId ? { id: recomputeTargetId } : {});
+    setRecomputeTargetId(null);
+  };
+
+  const handleCancelMapping = () => {
+    setPendingFiles(null);
+    setRecomputeTargetId(null);
+  };
+
+  const handleResolveConflict = (assetId: string, choice: { title?: string; label?: string }) => {
+    if (!data) return;
+    if (data.payoutLock) {
+      alert("Kỳ này đã chốt. Hãy mở khóa trước khi đối soát.");
+      return;
+    }
+    replaceAnalysis(recordConflictResolution(data, resolveConflict(data, assetId, choice), assetId, choice));
+    if (choice.label && !data.labelSummaries.some(l => l.label === choice.label)) {
+      setSelectedLabels(prev => [...prev, choice.label!]);
+    }
+  };
+
+  const handleMergeTitle = (title: string) => {
+    if (!data) return;
+    if (data.payoutLock) {
+      alert("Kỳ này đã chốt. Hãy mở khóa trước khi đối soát.");
+      return;
+    }
+    replaceAnalysis(recordTitleMerge(data, mergeTitleMatch(data, title), title));
+  };
+
+  const handleLockPayout = () => {
+    if (!data) return;
+    replaceAnalysis(lockPayout(data, {
+      lockedAt: Date.now(),
+      exchangeRate,
+      exchangeRates,
+      rateBasis,
+      currencyRates,
+      payoutDate: activePayoutDate,
+      labelRates,
+      bonusPercentage,
+      bonusRules,
+      editors,
+      filters: { selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels, lowEarningThreshold },
+      earningTiers,
+      payouts,
+      totalBonus
+    }));
+  };
+
+  const handleOutputCurrencyChange = (currency: PayoutCurrency) => {
+    if (!data || data.payoutLock) return;
+    replaceAnalysis({ ...data, payoutCurrency: currency });
+  };
+
+  const handleUnlockPayout = (reason: string) => {
+    if (!data) return;
+    replaceAnalysis(unlockPayout(data, reason));
   };
 
-  const handleAIAnalysis = async (currentData: AnalysisResult, currentBonus: number) => {
+  // The insight covers only what passes the filters, so it matches the charts next to it
+  const handleAIAnalysis = async (currentData: AnalysisResult, currentBonus: number, filters: FilterSpec) => {
     setIsAiLoading(true);
-    const insight = await getAIInsights(currentData, currentBonus);
-    
-    setData(prev => prev && prev.id === currentData.id ? { ...prev, aiInsight: insight } : prev);
-    setHistory(prev => prev.map(h => h.id === currentData.id ? { ...h, aiInsight: insight } : h));
-    
+    setAiError(null);
+    const visible = applyFilters(currentData, filters);
+    const result = await generateInsight({
+      data: visible,
+      filters: describeFilters(filters),
+      bonusPercentage: currentBonus,
+      tiers: summarizeTiers(visible.videoEarnings, currentData.payoutLock?.earningTiers || earningTiers),
+      lowEarningThreshold: filters.lowEarningThreshold ?? DEFAULT_LOW_EARNING_THRESHOLD,
+      language: aiConfig.language || DEFAULT_INSIGHT_LANGUAGE
+    }, aiConfig);
+
+    if (result.ok) {
+      setData(prev => prev && prev.id === currentData.id ? { ...prev, aiInsight: result.insight } : prev);
+      setHistory(prev => prev.map(h => h.id === currentData.id ? { ...h, aiInsight: result.insight } : h));
+    } else {
+      setAiError({ analysisId: currentData.id, result });
+    }
+
     setIsAiLoading(false);
   };
 
+  // Conversations are stored on the analysis so they come back with history
+  const updateChat = (analysisId: string, update: (chat: ChatMessage[]) => ChatMessage[]) => {
+    setData(prev => prev && prev.id === analysisId ? { ...prev, chat: update(prev.chat || []) } : prev);
+    setHistory(prev => prev.map(h => h.id === analysisId ? { ...h, chat: update(h.chat || []) } : h));
+  };
+
+  const handleChatSend = async (text: string) => {
+    if (!data || chatLoadingId) return;
+    const analysisId = data.id;
+    const question = createChatMessage('user', text);
+    const conversation = [...(data.chat || []), question];
+    updateChat(analysisId, chat => [...chat, question]);
+    setChatError(null);
+    setChatLoadingId(analysisId);
+
+    const result = await runChatTurn(conversation, {
+      videos: filteredData.videoEarnings,
+      lowEarningThreshold: activeLowEarningThreshold,
+      tiers: activeEarningTiers,
+      language: aiConfig.language || DEFAULT_INSIGHT_LANGUAGE
+    }, aiConfig);
+
+    if (result.ok === false) setChatError({ analysisId, result });
+    else updateChat(analysisId, chat => [...chat, ...result.messages]);
+    setChatLoadingId(null);
+  };
+
+  const handleChatClear = () => {
+    if (!data || !confirm("Xóa toàn bộ hội thoại của phân tích này?")) return;
+    updateChat(data.id, () => []);
+    setChatError(null);
+  };
+
+  const statementPeriod = () => data?.startDate ? `${data.startDate} - ${data.endDate}` : "";
+
+  const handleExportStatement = (statement: PayoutStatement) => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, statementToSheet(statement, statementPeriod()), toSheetName(statement.editor.name, []));
+    const dateStr = new Date().toISOString().split('T')[0];
+    XLSX.writeFile(wb, `Phieu_thanh_toan_${statement.editor.name.replace(/\s+/g, '_')}_${dateStr}.xlsx`);
+  };
+
+  const handlePrintStatement = (statement: PayoutStatement) => {
+    if (!printStatement(statement, statementPeriod())) {
+      alert("Trình duyệt đã chặn cửa sổ in. Vui lòng cho phép cửa sổ bật lên.");
+    }
+  };
+
   const handleExportExcel = () => {
     const exportTarget = filteredData || data;
     if (!exportTarget) return;
 
-    const summarySheetData = exportTarget.labelSummaries.map(item => {
-      const bonusUSD = item.totalEarning * (bonusPercentage / 100);
-      const bonusVND = bonusUSD * exchangeRate;
+    const summarySheetData = payouts.map(item => {
+      const rate = outputRateForLabel(item.label);
       return {
         "Nhãn tùy chỉnh": item.label,
         "Số lượng Video (đã lọc)": item.videoCount,
         "Tổng thu nhập ($)": item.totalEarning.toFixed(2),
         "Hiệu suất ($/Vid)": (item.totalEarning / item.videoCount).toFixed(2),
-        [`Bonus ${bonusPercentage}% ($)`]: bonusUSD.toFixed(2),
-        "Thành tiền Bonus (VND)": Math.round(bonusVND).toLocaleString('vi-VN')
+        "Quy tắc áp dụng": item.lines.map(l => l.ruleName).join(', '),
+        "Bonus ($)": item.bonus.toFixed(2),
+        "Tỷ giá áp dụng": formatRate(rate, outputCurrency),
+        [`Thành tiền Bonus (${outputCurrency})`]: formatAmount(item.bonus * rate, outputCurrency)
       };
     });
 
+    const payoutLineSheetData = payouts.flatMap(item => item.lines.map(line => ({
+      "Nhãn tùy chỉnh": item.label,
+      "Quy tắc": line.ruleName,
+      "Cách tính": line.description,
+      "Bonus ($)": line.amount.toFixed(2),
+      "Tỷ giá áp dụng": formatRate(outputRateForLabel(item.label), outputCurrency),
+      [`Thành tiền (${outputCurrency})`]: formatAmount(line.amount * outputRateForLabel(item.label), outputCurrency)
+    })));
+
     const detailSheetData = exportTarget.videoEarnings.map(item => ({
       "Tiêu đề": item.title,
       "Nhãn tùy chỉnh": item.label,
       "Post ID": item.assetId || "N/A",
       "Ngày": item.date || "N/A",
       "Hashtags": item.hashtags.join(', '),
+      "Tệp nguồn": item.sourceFiles?.join(', ') || exportTarget.fileName,
       "Thu nhập ($)": item.totalEarning.toFixed(2),
-      "Loại": item.totalEarning < 1 ? "Dưới 1$" : "Trên 1$"
+      "Tỷ giá theo ngày": formatRate(rateFor(outputCurrency, weightedRate([item], resolveRate), activeCurrencyRates), outputCurrency),
+      "Loại": findTier(item.totalEarning, activeEarningTiers)?.name || "",
+      [`Dưới $${activeLowEarningThreshold}`]: item.totalEarning < activeLowEarningThreshold ? "Có" : "Không"
+    }));
+
+    const tierSheetData = summarizeTiers(exportTarget.videoEarnings, activeEarningTiers).map(s => ({
+      "Mức": s.tier.name,
+      "Khoảng ($)": describeTierRange(s),
+      "Số video": s.videoCount,
+      "Tỷ lệ video (%)": exportTarget.videoEarnings.length > 0 ? ((s.videoCount / exportTarget.videoEarnings.length) * 100).toFixed(1) : "0.0",
+      "Tổng thu nhập ($)": s.totalEarning.toFixed(2),
+      "Tỷ lệ doanh thu (%)": exportTarget.grandTotal > 0 ? ((s.totalEarning / exportTarget.grandTotal) * 100).toFixed(1) : "0.0"
+    }));
+
+    const hashtagSheetData = summarizeHashtags(exportTarget.videoEarnings, activeLowEarningThreshold).map(s => ({
+      "Hashtag": s.tag,
+      "Số video": s.videoCount,
+      "Tổng thu nhập ($)": s.totalEarning.toFixed(2),
+      "TB mỗi video ($)": s.averageEarning.toFixed(2),
+      [`Video < $${activeLowEarningThreshold}`]: s.lowEarningCount,
+      "Tỷ lệ thu nhập thấp (%)": (s.lowEarningShare * 100).toFixed(1)
+    }));
+
+    const hashtagPairSheetData = findHashtagPairs(exportTarget.videoEarnings, 100).map(p => ({
+      "Hashtag 1": p.tags[0],
+      "Hashtag 2": p.tags[1],
+      "Số video chung": p.videoCount,
+      "Tổng thu nhập ($)": p.totalEarning.toFixed(2)
+    }));
+
+    const topicSheetData = clusterTopics(exportTarget.videoEarnings, suggestTopicCount(exportTarget.videoEarnings.length)).map(c => ({
+      "Chủ đề": topicName(c.keywords),
+      "Số video": c.videoCount,
+      "Tổng thu nhập ($)": c.totalEarning.toFixed(2),
+      "TB mỗi video ($)": c.averageEarning.toFixed(2),
+      "Video chưa gắn nhãn": c.unlabeledCount,
+      "Nhãn": c.labels.map(l => `${l.label} (${l.videoCount})`).join(', ')
     }));
 
     const wb = XLSX.utils.book_new();
     const wsSummary = XLSX.utils.json_to_sheet(summarySheetData);
     const wsDetails = XLSX.utils.json_to_sheet(detailSheetData);
+    const wsPayoutLines = XLSX.utils.json_to_sheet(payoutLineSheetData);
 
     XLSX.utils.book_append_sheet(wb, wsSummary, "Tổng hợp & Bonus");
     XLSX.utils.book_append_sheet(wb, wsDetails, "Chi tiết Video");
+    XLSX.utils.book_append_sheet(wb, wsPayoutLines, "Chi tiết Bonus");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(tierSheetData), "Phân tầng thu nhập");
+    if (hashtagSheetData.length > 0) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(hashtagSheetData), "Hashtag");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(hashtagPairSheetData), "Cặp Hashtag");
+    }
+    if (topicSheetData.length > 0) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(topicSheetData), "Chủ đề");
+    }
+
+    // One payslip sheet per person on the roster
+    statements.forEach(statement => {
+      XLSX.utils.book_append_sheet(wb, statementToSheet(statement, statementPeriod()), toSheetName(statement.editor.name, wb.SheetNames));
+    });
 
     const dateStr = new Date().toISOString().split('T')[0];
-    const fileNameExport = `Thanh_toan_bonus_${bonusPercentage}pt_${dateStr}.xlsx`;
+    const fileNameExport = activeBonusRules.length > 0
+      ? `Thanh_toan_bonus_quy_tac_${dateStr}.xlsx`
+      : `Thanh_toan_bonus_${activeBonusPercentage}pt_${dateStr}.xlsx`;
 
     XLSX.writeFile(wb, fileNameExport);
   };
 
   const COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#f43f5e', '#f59e0b', '#10b981', '#06b6d4'];
 
-  const efficiencies = useMemo(() => {
-    if (!filteredData) return [];
-    return filteredData.labelSummaries.map(l => l.videoCount > 0 ? l.totalEarning / l.videoCount : 0);
+  const { max: maxEfficiency, average: avgEfficiency } = useMemo(() => {
+    return computeEfficiencyStats(filteredData ? filteredData.labelSummaries : []);
   }, [filteredData]);
 
-  const maxEfficiency = useMemo(() => {
-    return efficiencies.length > 0 ? Math.max(...efficiencies) : 0;
-  }, [efficiencies]);
-
-  const avgEfficiency = useMemo(() => {
-    return efficiencies.length > 0 ? efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length : 0;
-  }, [efficiencies]);
-
   // Calculate hashtag frequencies for the entire dataset
   const hashtagCountsMap = useMemo(() => {
-    if (!data) return {};
-    const counts: Record<string, number> = {};
-    data.videoEarnings.forEach(v => {
-      v.hashtags.forEach(tag => {
-        counts[tag] = (counts[tag] || 0) + 1;
-      });
-    });
-    return counts;
+    return data ? countHashtags(data.videoEarnings) : {};
   }, [data]);
 
   const searchedHashtags = useMemo(() => {
@@ -382,9 +830,14 @@ const App: React.FC = () => {
                   <span>{data.startDate} - {data.endDate}</span>
                 </div>
                 <div className="hidden sm:block text-gray-300">|</div>
-                <div className="text-[10px] sm:text-xs text-indigo-600 font-medium italic truncate max-w-[150px] sm:max-w-[250px]">
-                  {data.fileName}
+                <div className="text-[10px] sm:text-xs text-indigo-600 font-medium italic truncate max-w-[150px] sm:max-w-[250px]" title={data.fileName}>
+                  {(data.sourceFiles?.length || 0) > 1 ? `${data.sourceFiles!.length} tệp đã gộp` : data.fileName}
                 </div>
+                {(data.duplicateRowCount || 0) > 0 && (
+                  <span className="text-[10px] bg-amber-100 text-amber-600 px-2 py-0.5 rounded-full font-bold">
+                    Đã loại {data.duplicateRowCount} dòng trùng
+                  </span>
+                )}
               </div>
             )}
           </div>
@@ -398,6 +851,15 @@ const App: React.FC = () => {
                 <span className="hidden lg:inline text-sm font-semibold">Lịch sử</span>
              </button>
 
+             <button 
+               onClick={() => { setShowComparison(!showComparison); setShowHistory(false); }}
+               className={`p-2 rounded-lg transition-colors flex items-center gap-2 ${showComparison ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`}
+               title="So sánh hai kỳ"
+             >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"></path></svg>
+                <span className="hidden lg:inline text-sm font-semibold">So sánh</span>
+             </button>
+
              {data && (
                 <button 
                   onClick={handleExportExcel}
@@ -410,8 +872,8 @@ const App: React.FC = () => {
              <label className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 sm:px-4 py-2 rounded-lg font-medium cursor-pointer transition-colors text-sm flex items-center gap-2">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4"></path></svg>
                 <span className="hidden sm:inline text-sm font-semibold">Lọc File Mới</span>
-                <span className="sm:hidden text-sm font-semibold">Tải CSV</span>
-                <input type="file" accept=".csv" className="hidden" onChange={handleFileUpload} />
+                <span className="sm:hidden text-sm font-semibold">Tải tệp</span>
+                <input type="file" accept={ACCEPTED_FILE_TYPES} multiple className="hidden" onChange={handleFileUpload} />
              </label>
           </div>
         </div>
@@ -420,7 +882,12 @@ const App: React.FC = () => {
           <div className="absolute top-16 right-4 w-80 max-w-[calc(100vw-2rem)] bg-white shadow-2xl rounded-2xl border border-gray-100 p-4 mt-2 animate-in slide-in-from-top-4 z-50">
             <h3 className="text-sm font-bold text-gray-800 mb-3 flex items-center justify-between">
               Phân tích gần đây
-              <span className="text-[10px] text-gray-400 font-medium">Tối đa 10 tệp</span>
+              <button
+                onClick={() => { setShowStorage(true); setShowHistory(false); }}
+                className="text-[10px] text-indigo-500 hover:text-indigo-700 font-bold"
+              >
+                Lưu trữ & sao lưu
+              </button>
             </h3>
             <div className="space-y-2 max-h-[400px] overflow-y-auto pr-1 custom-scrollbar">
               {history.length > 0 ? history.map((item) => (
@@ -433,16 +900,27 @@ const App: React.FC = () => {
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
                   </div>
                   <div className="flex-1 min-w-0">
-                    <p className="text-xs font-bold text-gray-700 truncate">{item.fileName}</p>
+                    <p className="text-xs font-bold text-gray-700 truncate" title={item.fileName}>{item.fileName}</p>
                     <p className="text-[10px] text-gray-400 mt-0.5">{new Date(item.timestamp).toLocaleString('vi-VN')}</p>
                     <div className="flex items-center justify-between mt-2">
-                      <span className="text-[10px] font-black text-indigo-600">${item.grandTotal.toFixed(2)}</span>
-                      <button 
-                        onClick={(e) => deleteFromHistory(item.id, e)}
-                        className="text-[10px] text-gray-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all font-bold"
-                      >
-                        Xóa
-                      </button>
+                      <span className="text-[10px] font-black text-indigo-600">
+                        ${item.grandTotal.toFixed(2)}
+                        {item.payoutLock && <span className="ml-2 text-[9px] bg-emerald-100 text-emerald-700 px-1.5 py-0.5 rounded font-bold">Đã chốt</span>}
+                      </span>
+                      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-all">
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); recomputeAnalysis(item.id); }}
+                          className="text-[10px] text-gray-300 hover:text-indigo-500 font-bold"
+                        >
+                          Tính lại
+                        </button>
+                        <button 
+                          onClick={(e) => deleteFromHistory(item.id, e)}
+                          className="text-[10px] text-gray-300 hover:text-rose-500 font-bold"
+                        >
+                          Xóa
+                        </button>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -455,6 +933,20 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 mt-8">
+        {showComparison && (
+          <HistoryComparison history={history} onClose={() => setShowComparison(false)} />
+        )}
+
+        {showStorage && (
+          <StorageManager
+            history={history}
+            onDeleteEntries={deleteHistoryEntries}
+            onExportBackup={handleExportBackup}
+            onImportBackup={handleImportBackup}
+            onClose={() => setShowStorage(false)}
+          />
+        )}
+
         {missingColumns.length > 0 && (
           <div className="mb-6 bg-amber-50 border-l-4 border-amber-500 p-4 rounded-r-xl shadow-sm animate-in fade-in slide-in-from-top-4">
             <div className="flex items-start">
@@ -470,6 +962,8 @@ const App: React.FC = () => {
                   <ul className="list-disc list-inside mt-1 space-y-1">
                     <li>Nếu thiếu <span className="font-bold">Post ID</span>: Bạn sẽ không thể bấm link trực tiếp để xem Video trên Facebook.</li>
                     <li>Nếu thiếu <span className="font-bold">Description</span>: Tính năng lọc và trích xuất hashtag sẽ không khả dụng.</li>
+                    <li>Nếu thiếu <span className="font-bold">Ngày</span>: Biểu đồ xu hướng theo thời gian sẽ trống.</li>
+                    <li>Nếu thiếu <span className="font-bold">Nhãn</span>: Tất cả video được gộp vào "Không có nhãn".</li>
                   </ul>
                 </div>
               </div>
@@ -477,13 +971,48 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {!data && !loading && (
+        {data && (data.parseWarningCount || 0) > 0 && !pendingFiles && (
+          <ParseWarningsPanel
+            warnings={data.parseWarnings || []}
+            totalCount={data.parseWarningCount!}
+            onReconfigure={() => recomputeAnalysis(data.id)}
+          />
+        )}
+
+        {data && (data.conflicts?.length || data.titleMatches?.length || 0) > 0 && (
+          <ReconciliationPanel
+            conflicts={data.conflicts || []}
+            titleMatches={data.titleMatches || []}
+            onResolve={handleResolveConflict}
+            onMergeTitle={handleMergeTitle}
+          />
+        )}
+
+        {pendingWorkbooks && (
+          <SheetPicker
+            workbooks={pendingWorkbooks.workbooks}
+            onConfirm={handleConfirmSheets}
+            onCancel={() => setPendingWorkbooks(null)}
+          />
+        )}
+
+        {pendingFiles && (
+          <ColumnMappingWizard
+            files={pendingFiles}
+            presets={columnPresets}
+            onPresetsChange={setColumnPresets}
+            onConfirm={handleConfirmMapping}
+            onCancel={handleCancelMapping}
+          />
+        )}
+
+        {!data && !loading && !pendingFiles && !pendingWorkbooks && (
           <div className="flex flex-col items-center justify-center py-24 bg-white rounded-2xl border-2 border-dashed border-gray-200">
             <div className="w-16 h-16 bg-indigo-50 text-indigo-600 rounded-full flex items-center justify-center mb-4">
               <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
             </div>
             <h2 className="text-lg font-semibold text-gray-700">Chưa có dữ liệu phân tích</h2>
-            <p className="text-gray-500 mt-1 max-w-sm text-center">Vui lòng tải lên tệp CSV từ Facebook hoặc chọn một tệp từ lịch sử để xem lại kết quả.</p>
+            <p className="text-gray-500 mt-1 max-w-sm text-center">Vui lòng tải lên một hoặc nhiều tệp CSV/Excel từ Facebook (tự động gộp và loại dòng trùng) hoặc chọn một tệp từ lịch sử để xem lại kết quả.</p>
           </div>
         )}
 
@@ -491,11 +1020,24 @@ const App: React.FC = () => {
           <div className="flex flex-col items-center justify-center py-24">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
             <p className="mt-4 text-gray-600 animate-pulse font-medium">Đang xử lý dữ liệu...</p>
+            {analysisProgress && (
+              <div className="mt-4 w-full max-w-sm">
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-600 transition-all" style={{ width: `${Math.round(analysisProgress.progress * 100)}%` }}></div>
+                </div>
+                <div className="flex items-center justify-between mt-2 text-xs text-gray-500 font-medium">
+                  <span>{analysisProgress.rowsProcessed.toLocaleString('vi-VN')} dòng · {Math.round(analysisProgress.progress * 100)}%</span>
+                  <button onClick={cancelAnalysis} className="font-bold text-rose-500 hover:text-rose-700">Hủy</button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
         {data && filteredData && (
           <div className="space-y-6 animate-in fade-in duration-500">
+            <PayoutLockPanel data={data} onLock={handleLockPayout} onUnlock={handleUnlockPayout} />
+
             {/* Top Cards Grid Updated for 7 cards */}
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
               <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-between">
@@ -503,12 +1045,12 @@ const App: React.FC = () => {
                 <h3 className="text-2xl font-black text-indigo-600">${filteredData.grandTotal.toFixed(2)}</h3>
               </div>
               <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-between">
-                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Bonus ({bonusPercentage}%)</p>
-                <h3 className="text-2xl font-black text-emerald-600">${(filteredData.grandTotal * (bonusPercentage / 100)).toFixed(2)}</h3>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Bonus ({activeBonusRules.length > 0 ? `${activeBonusRules.length} quy tắc` : `${activeBonusPercentage}%`})</p>
+                <h3 className="text-2xl font-black text-emerald-600">${totalBonus.toFixed(2)}</h3>
               </div>
               <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-between">
-                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Thanh toán (VND)</p>
-                <h3 className="text-xl font-black text-gray-900">{formatVND(filteredData.grandTotal * (bonusPercentage / 100) * exchangeRate)}</h3>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Thanh toán ({outputCurrency})</p>
+                <h3 className="text-xl font-black text-gray-900">{formatCurrency(totalBonusOutput, outputCurrency)}</h3>
               </div>
               <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-between">
                 <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Tổng số Nhãn</p>
@@ -525,7 +1067,7 @@ const App: React.FC = () => {
                 </div>
               </div>
               <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 flex flex-col justify-between">
-                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Video &lt; 1$</p>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Video &lt; {activeLowEarningThreshold}$</p>
                 <div className="flex items-center gap-2">
                   <h3 className={`text-2xl font-black ${filteredData.lowEarningCount > 0 ? 'text-amber-500' : 'text-gray-400'}`}>
                     {filteredData.lowEarningCount}
@@ -557,15 +1099,16 @@ const App: React.FC = () => {
                     {showFilter && (
                       <div className="space-y-4 animate-in slide-in-from-top-2">
                          <div className="flex gap-2">
-                            <button onClick={selectAllLabels} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Tất cả</button>
+                            <button onClick={selectAllLabels} disabled={!!payoutLock} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Tất cả</button>
                             <span className="text-gray-300">|</span>
-                            <button onClick={deselectAllLabels} className="text-xs font-semibold text-gray-500 hover:text-gray-700">Bỏ chọn</button>
+                            <button onClick={deselectAllLabels} disabled={!!payoutLock} className="text-xs font-semibold text-gray-500 hover:text-gray-700">Bỏ chọn</button>
                          </div>
                          <div className="flex flex-wrap gap-2 max-h-[220px] overflow-y-auto pr-2 custom-scrollbar">
                             {data.labelSummaries.map((l, i) => (
                               <button
                                 key={i}
                                 onClick={() => toggleLabel(l.label)}
+                                disabled={!!payoutLock}
                                 className={`px-3 py-1.5 rounded-full text-[11px] font-medium transition-all ${selectedLabels.includes(l.label) ? 'bg-indigo-600 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
                               >
                                 {l.label} <span className={`ml-1 opacity-60 text-[10px] ${selectedLabels.includes(l.label) ? 'text-indigo-100' : 'text-gray-400'}`}>({l.videoCount})</span>
@@ -615,6 +1158,7 @@ const App: React.FC = () => {
                                  <button
                                    key={i}
                                    onClick={() => toggleHashtag(tag)}
+                                   disabled={!!payoutLock}
                                    className={`px-2.5 py-1.5 rounded-lg text-[10px] font-bold transition-all border ${selectedHashtags.includes(tag) ? 'bg-amber-100 border-amber-500 text-amber-700 shadow-sm' : 'bg-white border-gray-200 text-gray-500 hover:border-indigo-300 hover:text-indigo-500'}`}
                                  >
                                    {tag} <span className={`ml-1 opacity-60 ${selectedHashtags.includes(tag) ? 'text-amber-600' : 'text-gray-400'}`}>({hashtagCountsMap[tag] || 0})</span>
@@ -628,7 +1172,7 @@ const App: React.FC = () => {
                          <div className="flex items-center justify-between pt-1 border-t border-gray-100 mt-2">
                             <span className="text-[9px] text-gray-400 font-medium">Tìm thấy {searchedHashtags.length} hashtag</span>
                             {selectedHashtags.length > 0 && (
-                               <button onClick={() => setSelectedHashtags([])} className="text-[10px] font-bold text-rose-500 hover:text-rose-700 flex items-center gap-1">
+                               <button onClick={() => setSelectedHashtags([])} disabled={!!payoutLock} className="text-[10px] font-bold text-rose-500 hover:text-rose-700 flex items-center gap-1">
                                   <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
                                   Bỏ chọn ({selectedHashtags.length})
                                </button>
@@ -647,11 +1191,12 @@ const App: React.FC = () => {
                                className="sr-only" 
                                checked={hideLowEarnings}
                                onChange={() => setHideLowEarnings(!hideLowEarnings)}
+                               disabled={!!payoutLock}
                              />
                              <div className={`block w-10 h-6 rounded-full transition-colors ${hideLowEarnings ? 'bg-indigo-600' : 'bg-gray-300'}`}></div>
                              <div className={`absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${hideLowEarnings ? 'translate-x-4' : 'translate-x-0'}`}></div>
                           </div>
-                          <span className="text-xs font-semibold text-gray-600 group-hover:text-indigo-600 transition-colors">Ẩn video &lt; 1$</span>
+                          <span className="text-xs font-semibold text-gray-600 group-hover:text-indigo-600 transition-colors">Ẩn video &lt; {activeLowEarningThreshold}$</span>
                        </label>
                        <label className="flex items-center gap-3 cursor-pointer group">
                           <div className="relative">
@@ -660,12 +1205,28 @@ const App: React.FC = () => {
                                className="sr-only" 
                                checked={hideLowEarningLabels}
                                onChange={() => setHideLowEarningLabels(!hideLowEarningLabels)}
+                               disabled={!!payoutLock}
                              />
                              <div className={`block w-10 h-6 rounded-full transition-colors ${hideLowEarningLabels ? 'bg-rose-500' : 'bg-gray-300'}`}></div>
                              <div className={`absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${hideLowEarningLabels ? 'translate-x-4' : 'translate-x-0'}`}></div>
                           </div>
-                          <span className="text-xs font-semibold text-gray-600 group-hover:text-rose-600 transition-colors">Ẩn Nhãn &lt; 1$</span>
+                          <span className="text-xs font-semibold text-gray-600 group-hover:text-rose-600 transition-colors">Ẩn Nhãn &lt; {activeLowEarningThreshold}$</span>
                        </label>
+                       <div className="flex items-center justify-between gap-3 pt-2 border-t border-gray-100">
+                          <span className="text-xs font-semibold text-gray-600">Ngưỡng thu nhập thấp</span>
+                          <div className="relative w-24">
+                             <input
+                               type="number"
+                               min="0"
+                               step="0.1"
+                               value={activeLowEarningThreshold}
+                               onChange={(e) => setLowEarningThreshold(Math.max(Number(e.target.value), 0))}
+                               disabled={!!payoutLock}
+                               className="w-full bg-gray-50 border border-gray-200 rounded-lg pl-2 pr-6 py-1 text-xs font-bold text-gray-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                             />
+                             <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 text-xs">$</span>
+                          </div>
+                       </div>
                     </div>
                  </div>
                </div>
@@ -678,31 +1239,54 @@ const App: React.FC = () => {
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <div>
-                        <label className="block text-xs font-semibold text-indigo-700 mb-1 uppercase tracking-wider">Tỉ giá USD (VND)</label>
+                        <label className="block text-xs font-semibold text-indigo-700 mb-1 uppercase tracking-wider">Tỉ giá mặc định (VND)</label>
                         <div className="relative">
                           <input 
                             type="number" 
-                            value={exchangeRate}
+                            value={activeExchangeRate}
                             onChange={(e) => setExchangeRate(Number(e.target.value))}
+                            disabled={!!payoutLock}
                             className="w-full bg-white border border-indigo-200 rounded-xl px-4 py-2.5 text-indigo-900 font-bold focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
                           />
                           <span className="absolute right-4 top-1/2 -translate-y-1/2 text-indigo-400 font-medium text-sm">VND</span>
                         </div>
                       </div>
                       <div>
-                        <label className="block text-xs font-semibold text-indigo-700 mb-1 uppercase tracking-wider">% Bonus</label>
+                        <label className="block text-xs font-semibold text-indigo-700 mb-1 uppercase tracking-wider">% Bonus mặc định</label>
                         <div className="relative">
                           <input 
                             type="number" 
                             step="0.1"
-                            value={bonusPercentage}
+                            value={activeBonusPercentage}
                             onChange={(e) => setBonusPercentage(Number(e.target.value))}
+                            disabled={!!payoutLock}
                             className="w-full bg-white border border-indigo-200 rounded-xl px-4 py-2.5 text-indigo-900 font-bold focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
                           />
                           <span className="absolute right-4 top-1/2 -translate-y-1/2 text-indigo-400 font-medium text-sm">%</span>
                         </div>
                       </div>
                     </div>
+                    <fieldset disabled={!!payoutLock}>
+                      <CurrencySettings
+                        currency={outputCurrency}
+                        rates={activeCurrencyRates}
+                        onCurrencyChange={handleOutputCurrencyChange}
+                        onRatesChange={setCurrencyRates}
+                      />
+                      <ExchangeRateTable
+                        rates={activeExchangeRates}
+                        basis={activeRateBasis}
+                        payoutDate={activePayoutDate}
+                        onRatesChange={setExchangeRates}
+                        onBasisChange={setRateBasis}
+                        onPayoutDateChange={setPayoutDate}
+                      />
+                      <BonusRulesEditor
+                        rules={activeBonusRules}
+                        availableLabels={data.labelSummaries.map(l => l.label)}
+                        onChange={setBonusRules}
+                      />
+                    </fieldset>
                  </div>
 
                  <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
@@ -733,6 +1317,16 @@ const App: React.FC = () => {
                </div>
             </div>
 
+            <TrendChart videos={filteredData.videoEarnings} labelSummaries={filteredData.labelSummaries} colors={COLORS} />
+
+            <fieldset disabled={!!payoutLock}>
+              <EarningTiersPanel summaries={tierSummaries} tiers={activeEarningTiers} onTiersChange={setEarningTiers} />
+            </fieldset>
+
+            <HashtagReport videos={filteredData.videoEarnings} lowEarningThreshold={activeLowEarningThreshold} />
+
+            <TopicClusters videos={filteredData.videoEarnings} aiConfig={aiConfig} />
+
             <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
               <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-2">
                 <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
@@ -754,13 +1348,14 @@ const App: React.FC = () => {
                       <th className="pb-4 px-2 text-center">Đánh giá Hiệu quả</th>
                       <th className="pb-4 px-2 text-right">Doanh thu ($)</th>
                       <th className="pb-4 px-2 text-right text-emerald-600">Bonus ($)</th>
-                      <th className="pb-4 px-2 text-right text-indigo-600 font-extrabold">Thành tiền (VND)</th>
+                      <th className="pb-4 px-2 text-right text-indigo-600 font-extrabold">Thành tiền ({outputCurrency})</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-50">
-                    {filteredData.labelSummaries.map((item, i) => {
-                      const bonusUSD = item.totalEarning * (bonusPercentage / 100);
-                      const bonusVND = bonusUSD * exchangeRate;
+                    {payouts.map((item, i) => {
+                      const bonusUSD = item.bonus;
+                      const rate = outputRateForLabel(item.label);
+                      const bonusOutput = bonusUSD * rate;
                       const efficiency = item.videoCount > 0 ? item.totalEarning / item.videoCount : 0;
                       
                       const isTopEfficiency = efficiency === maxEfficiency && efficiency > 0;
@@ -816,11 +1411,21 @@ const App: React.FC = () => {
                           <td className="py-4 px-2 text-right font-medium text-gray-600">
                             <span className={i < 3 ? 'font-black' : ''}>${item.totalEarning.toFixed(2)}</span>
                           </td>
-                          <td className="py-4 px-2 text-right font-bold text-emerald-600">${bonusUSD.toFixed(2)}</td>
+                          <td className="py-4 px-2 text-right">
+                            <div className="font-bold text-emerald-600">${bonusUSD.toFixed(2)}</div>
+                            {item.lines.map(line => (
+                              <div key={line.ruleId} className="text-[9px] text-gray-400 font-medium" title={line.description}>
+                                {line.ruleName}: ${line.amount.toFixed(2)}
+                              </div>
+                            ))}
+                          </td>
                           <td className="py-4 px-2 text-right">
                              <div className={`px-3 py-1.5 rounded-lg inline-block font-extrabold min-w-[120px] ${i < 3 ? 'bg-indigo-100 text-indigo-800' : 'bg-indigo-50 text-indigo-700'}`}>
-                                {formatVND(bonusVND)}
+                                {formatCurrency(bonusOutput, outputCurrency)}
                              </div>
+                             {outputCurrency !== 'USD' && (outputCurrency !== 'VND' || Math.round(rate) !== activeExchangeRate) && (
+                               <div className="text-[9px] text-gray-400 font-medium mt-1">@ {formatRate(rate, outputCurrency)}</div>
+                             )}
                           </td>
                         </tr>
                       );
@@ -830,78 +1435,47 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <EditorRoster
+              editors={activeEditors}
+              availableLabels={data.labelSummaries.map(l => l.label)}
+              unassignedLabels={activeEditors.length > 0 ? findUnassignedLabels(activeEditors, payouts) : []}
+              readOnly={!!payoutLock}
+              statements={statements}
+              onChange={setEditors}
+              onExportStatement={handleExportStatement}
+              onPrintStatement={handlePrintStatement}
+            />
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-               <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex flex-col h-full">
-                  <div className="flex justify-between items-center mb-6">
-                    <h3 className="text-lg font-bold text-gray-800">Chi tiết Video</h3>
-                    <span className="text-xs text-gray-400">{filteredData.videoEarnings.length} video</span>
-                  </div>
-                  <div className="flex-1 overflow-y-auto max-h-[500px] pr-2 custom-scrollbar">
-                    {filteredData.videoEarnings.length > 0 ? (
-                      <table className="w-full text-left">
-                        <thead className="sticky top-0 bg-white shadow-sm z-10">
-                          <tr className="text-xs font-bold text-gray-400 uppercase border-b">
-                            <th className="py-3 px-2">Tiêu đề & ID</th>
-                            <th className="py-3 px-2 text-right">Thu nhập ($)</th>
-                          </tr>
-                        </thead>
-                        <tbody className="divide-y divide-gray-50">
-                          {filteredData.videoEarnings.map((item, i) => (
-                            <tr key={i} className={`hover:bg-gray-50 transition-colors ${item.totalEarning < 1 ? 'bg-amber-50/30' : ''}`}>
-                              <td className="py-3 px-2">
-                                <div className="flex flex-col gap-1">
-                                  <div className="text-[11px] font-medium text-gray-700 leading-normal line-clamp-2">
-                                    {item.title}
-                                  </div>
-                                  <div className="flex flex-wrap items-center gap-2">
-                                    {item.assetId && (
-                                      <a 
-                                        href={`https://www.facebook.com/reel/${item.assetId}`} 
-                                        target="_blank" 
-                                        rel="noopener noreferrer"
-                                        className="text-[9px] text-indigo-500 hover:text-indigo-700 font-bold hover:underline flex items-center gap-1"
-                                      >
-                                        <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"></path></svg>
-                                        ID: {item.assetId}
-                                      </a>
-                                    )}
-                                    {item.hashtags.map((tag, idx) => (
-                                      <span key={idx} className="text-[8px] bg-gray-100 text-gray-400 px-1 rounded uppercase font-bold">
-                                        {tag}
-                                      </span>
-                                    ))}
-                                    {item.totalEarning < 1 && (
-                                      <span className="inline-block text-[8px] font-black uppercase tracking-tighter text-amber-600 border border-amber-200 bg-amber-50 px-1 rounded">
-                                        Low
-                                      </span>
-                                    )}
-                                  </div>
-                                </div>
-                              </td>
-                              <td className="py-3 px-2 text-right">
-                                 <span className={`font-bold ${item.totalEarning < 1 ? 'text-amber-600' : 'text-gray-900'}`}>
-                                    ${item.totalEarning.toFixed(2)}
-                                 </span>
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    ) : (
-                      <div className="py-12 text-center text-gray-400 italic">Trống</div>
-                    )}
-                  </div>
-               </div>
+               <VideoTable
+                 videos={filteredData.videoEarnings}
+                 showSources={(data.sourceFiles?.length || 0) > 1}
+                 lowEarningThreshold={activeLowEarningThreshold}
+                 tiers={activeEarningTiers}
+               />
 
                <div className="space-y-6 flex flex-col">
                   <div className="bg-indigo-900 rounded-2xl p-8 text-white shadow-xl relative overflow-hidden flex-1">
                      <div className="relative z-10">
-                        <div className="flex items-center gap-2 mb-4">
-                          <div className="bg-indigo-500 p-2 rounded-lg">
-                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path></svg>
+                        <div className="flex items-center justify-between gap-2 mb-4">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <div className="bg-indigo-500 p-2 rounded-lg">
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path></svg>
+                            </div>
+                            <div className="min-w-0">
+                              <h2 className="text-xl font-bold">Trợ lý AI</h2>
+                              <p className="text-[10px] text-indigo-300 font-medium truncate">{providerLabel(aiConfig.provider)}{aiConfig.model ? ` · ${aiConfig.model}` : ''}</p>
+                            </div>
                           </div>
-                          <h2 className="text-xl font-bold">Trợ lý Gemini</h2>
+                          <button
+                            onClick={() => setShowAiSettings(!showAiSettings)}
+                            className={`p-1.5 rounded-lg transition-colors ${showAiSettings ? 'bg-indigo-700 text-white' : 'text-indigo-300 hover:bg-indigo-800'}`}
+                            title="Cài đặt AI"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
+                          </button>
                         </div>
+                        {showAiSettings && <AIProviderSettings config={aiConfig} onChange={setAiConfig} />}
                         {isAiLoading ? (
                           <div className="flex items-center gap-3">
                              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
@@ -909,11 +1483,25 @@ const App: React.FC = () => {
                           </div>
                         ) : (
                           <div>
-                            <p className="text-indigo-100 leading-relaxed whitespace-pre-wrap mb-6 text-sm">
-                              {data.aiInsight || "Bấm nút để nhận phân tích chuyên sâu."}
-                            </p>
+                            {aiError && aiError.analysisId === data.id && !aiError.result.ok && (
+                              <div className="bg-rose-500/20 border border-rose-400/40 rounded-xl px-4 py-3 mb-4 text-xs text-rose-100">
+                                <p className="font-bold">{INSIGHT_ERROR_MESSAGES[aiError.result.code]}</p>
+                                {aiError.result.detail && <p className="mt-1 opacity-80 break-words">{aiError.result.detail}</p>}
+                              </div>
+                            )}
+                            {isStructuredInsight(data.aiInsight) ? (
+                              <InsightCards
+                                insight={data.aiInsight}
+                                availableLabels={data.labelSummaries.map(l => l.label)}
+                                onSelectLabel={payoutLock ? undefined : focusLabel}
+                              />
+                            ) : (
+                              <p className="text-indigo-100 leading-relaxed whitespace-pre-wrap mb-6 text-sm">
+                                {data.aiInsight || "Bấm nút để nhận phân tích chuyên sâu."}
+                              </p>
+                            )}
                             <button 
-                              onClick={() => handleAIAnalysis(data, bonusPercentage)} 
+                              onClick={() => handleAIAnalysis(data, activeBonusPercentage, activeFilters)} 
                               className="bg-white text-indigo-900 px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-50 transition-all shadow-lg active:scale-95 flex items-center gap-2"
                             >
                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.989-2.386l-.548-.547z"></path></svg>
@@ -923,6 +1511,15 @@ const App: React.FC = () => {
                         )}
                      </div>
                   </div>
+
+                  <AIChatPanel
+                    messages={data.chat || []}
+                    loading={chatLoadingId === data.id}
+                    error={chatError && chatError.analysisId === data.id ? chatError.result : null}
+                    videoCount={filteredData.videoEarnings.length}
+                    onSend={handleChatSend}
+                    onClear={handleChatClear}
+                  />
                </div>
             </div>
           </div>
@@ -0,0 +1,110 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, InsightFailure } from '../types';
+import { INSIGHT_ERROR_MESSAGES } from '../services/insightService';
+
+interface AIChatPanelProps {
+  messages: ChatMessage[];
+  loading: boolean;
+  error: InsightFailure | null;
+  videoCount: number;
+  onSend: (text: string) => void;
+  onClear: () => void;
+}
+
+const SUGGESTIONS = [
+  'Nhãn nào có thu nhập trung bình mỗi video cao nhất?',
+  '5 video thu nhập thấp nhất là gì?',
+  'Thu nhập theo tuần thay đổi thế nào?'
+];
+
+const AIChatPanel: React.FC<AIChatPanelProps> = ({ messages, loading, error, videoCount, onSend, onClear }) => {
+  const [draft, setDraft] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages, loading]);
+
+  const send = (text: string) => {
+    const question = text.trim();
+    if (!question || loading) return;
+    onSend(question);
+    setDraft("");
+  };
+
+  // Tool results are kept for the model but only shown as a short trace
+  const visible = messages.filter(m => m.role !== 'tool');
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Hỏi đáp dữ liệu</h3>
+          <p className="text-[10px] text-gray-400 font-medium mt-0.5">Trả lời dựa trên {videoCount} video đang lọc</p>
+        </div>
+        {messages.length > 0 && (
+          <button onClick={onClear} disabled={loading} className="text-[10px] font-bold text-rose-500 hover:text-rose-700 disabled:text-gray-300">
+            Xóa hội thoại
+          </button>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="max-h-[420px] min-h-[160px] overflow-y-auto pr-2 custom-scrollbar space-y-3 mb-4">
+        {visible.length === 0 && !loading && (
+          <div className="space-y-2">
+            {SUGGESTIONS.map(s => (
+              <button key={s} onClick={() => send(s)} className="block w-full text-left text-xs text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg px-3 py-2 transition-colors">
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+        {visible.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-2xl px-3 py-2 text-xs leading-relaxed ${message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700'}`}>
+              {message.toolCalls?.length ? (
+                <p className="text-[10px] italic text-gray-400">
+                  Đang tra cứu: {message.toolCalls.map(c => c.name).join(', ')}
+                </p>
+              ) : null}
+              {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+            </div>
+          </div>
+        ))}
+        {loading && (
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <div className="animate-spin rounded-full h-3 w-3 border-2 border-indigo-500 border-t-transparent"></div>
+            Đang trả lời...
+          </div>
+        )}
+        {error && !loading && (
+          <div className="bg-rose-50 border border-rose-100 rounded-xl px-3 py-2 text-xs text-rose-600">
+            <p className="font-bold">{INSIGHT_ERROR_MESSAGES[error.code]}</p>
+            {error.detail && <p className="mt-1 opacity-80 break-words">{error.detail}</p>}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') send(draft); }}
+          placeholder="Ví dụ: video nào của nhãn X dưới 1$ sau ngày 15?"
+          className="flex-1 bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        <button
+          onClick={() => send(draft)}
+          disabled={loading || !draft.trim()}
+          className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-xl font-semibold text-xs transition-colors"
+        >
+          Gửi
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AIChatPanel;
@@ -0,0 +1,76 @@
+
+import React from 'react';
+import { AIProviderConfig, AIProviderId, InsightLanguage } from '../types';
+import { AI_PROVIDERS, DEFAULT_INSIGHT_LANGUAGE, INSIGHT_LANGUAGES, configForProvider } from '../services/insightService';
+
+interface AIProviderSettingsProps {
+  config: AIProviderConfig;
+  onChange: (config: AIProviderConfig) => void;
+}
+
+const inputClass = "w-full bg-indigo-950/40 border border-indigo-700 rounded-lg px-3 py-1.5 text-xs text-white placeholder-indigo-400 outline-none focus:ring-1 focus:ring-indigo-300";
+
+const AIProviderSettings: React.FC<AIProviderSettingsProps> = ({ config, onChange }) => {
+  const update = (patch: Partial<AIProviderConfig>) => onChange({ ...config, ...patch });
+
+  return (
+    <div className="bg-indigo-800/60 rounded-xl p-4 mb-6 space-y-3">
+      <div>
+        <label className="block text-[10px] font-bold text-indigo-300 uppercase tracking-wider mb-1">Nhà cung cấp</label>
+        <select
+          value={config.provider}
+          onChange={(e) => onChange({ ...configForProvider(e.target.value as AIProviderId), language: config.language })}
+          className={inputClass}
+        >
+          {AI_PROVIDERS.map(p => <option key={p.id} value={p.id} className="text-gray-900">{p.label}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-[10px] font-bold text-indigo-300 uppercase tracking-wider mb-1">Ngôn ngữ trả lời</label>
+        <select
+          value={config.language || DEFAULT_INSIGHT_LANGUAGE}
+          onChange={(e) => update({ language: e.target.value as InsightLanguage })}
+          className={inputClass}
+        >
+          {INSIGHT_LANGUAGES.map(l => <option key={l.id} value={l.id} className="text-gray-900">{l.label}</option>)}
+        </select>
+      </div>
+      {config.provider !== 'rules' && (
+        <>
+          <div>
+            <label className="block text-[10px] font-bold text-indigo-300 uppercase tracking-wider mb-1">Mô hình</label>
+            <input type="text" value={config.model} onChange={(e) => update({ model: e.target.value })} className={inputClass} />
+          </div>
+          {config.provider === 'openai' && (
+            <div>
+              <label className="block text-[10px] font-bold text-indigo-300 uppercase tracking-wider mb-1">Địa chỉ máy chủ</label>
+              <input
+                type="text"
+                placeholder="http://localhost:11434/v1"
+                value={config.baseUrl || ''}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-[10px] font-bold text-indigo-300 uppercase tracking-wider mb-1">Khóa API</label>
+            <input
+              type="password"
+              placeholder={config.provider === 'gemini' ? 'Để trống để dùng khóa mặc định' : 'Không bắt buộc với máy chủ nội bộ'}
+              value={config.apiKey || ''}
+              onChange={(e) => update({ apiKey: e.target.value || undefined })}
+              className={inputClass}
+            />
+            <p className="text-[10px] text-indigo-400 mt-1">Khóa chỉ được lưu trên trình duyệt này và không có trong tệp sao lưu.</p>
+          </div>
+        </>
+      )}
+      {config.provider === 'rules' && (
+        <p className="text-[11px] text-indigo-200">Tóm tắt được tạo trực tiếp từ số liệu, không cần mạng và luôn cho cùng kết quả với cùng dữ liệu.</p>
+      )}
+    </div>
+  );
+};
+
+export default AIProviderSettings;
@@ -0,0 +1,150 @@
+
+import React from 'react';
+import { BonusRule, BonusRuleType, BonusTier } from '../types';
+import { createRule } from '../services/bonusService';
+
+interface BonusRulesEditorProps {
+  rules: BonusRule[];
+  availableLabels: string[];
+  onChange: (rules: BonusRule[]) => void;
+}
+
+const RULE_TYPES: { value: BonusRuleType; label: string }[] = [
+  { value: 'percentage', label: '% cố định' },
+  { value: 'tiered', label: 'Bậc thang' },
+  { value: 'perVideo', label: 'Theo video' },
+  { value: 'minimum', label: 'Tối thiểu' }
+];
+
+const inputClass = "w-full bg-white border border-indigo-200 rounded-lg px-2 py-1 text-xs text-indigo-900 font-bold focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const BonusRulesEditor: React.FC<BonusRulesEditorProps> = ({ rules, availableLabels, onChange }) => {
+  const updateRule = (id: string, patch: Partial<BonusRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(r => r.id !== id));
+  };
+
+  const toggleRuleLabel = (rule: BonusRule, label: string) => {
+    updateRule(rule.id, {
+      labels: rule.labels.includes(label) ? rule.labels.filter(l => l !== label) : [...rule.labels, label]
+    });
+  };
+
+  const updateTier = (rule: BonusRule, index: number, patch: Partial<BonusTier>) => {
+    updateRule(rule.id, { tiers: (rule.tiers || []).map((t, i) => i === index ? { ...t, ...patch } : t) });
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-indigo-100">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <label className="block text-xs font-semibold text-indigo-700 uppercase tracking-wider">Quy tắc Bonus</label>
+        <div className="flex flex-wrap gap-1">
+          {RULE_TYPES.map(t => (
+            <button
+              key={t.value}
+              onClick={() => onChange([...rules, createRule(t.value)])}
+              className="text-[10px] font-bold text-indigo-600 bg-white border border-indigo-200 hover:bg-indigo-100 px-2 py-1 rounded-lg transition-colors"
+            >
+              + {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rules.length === 0 && (
+        <p className="text-[11px] text-indigo-400 italic">Chưa có quy tắc — áp dụng % Bonus mặc định cho mọi nhãn.</p>
+      )}
+
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div key={rule.id} className="bg-white rounded-xl border border-indigo-100 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] font-black uppercase text-indigo-400 shrink-0">
+                {RULE_TYPES.find(t => t.value === rule.type)?.label}
+              </span>
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                className={inputClass}
+              />
+              <button onClick={() => removeRule(rule.id)} className="text-[10px] text-gray-300 hover:text-rose-500 font-bold shrink-0">Xóa</button>
+            </div>
+
+            {rule.type === 'percentage' && (
+              <div className="flex items-center gap-2 text-[11px] text-indigo-700">
+                <span>Tỉ lệ</span>
+                <input type="number" step="0.1" value={rule.rate ?? 0} onChange={(e) => updateRule(rule.id, { rate: Number(e.target.value) })} className={`${inputClass} max-w-[80px]`} />
+                <span>%</span>
+              </div>
+            )}
+
+            {rule.type === 'tiered' && (
+              <div className="space-y-1">
+                {(rule.tiers || []).map((tier, i) => (
+                  <div key={i} className="flex items-center gap-2 text-[11px] text-indigo-700">
+                    <span className="shrink-0">{tier.upTo === null ? 'Phần trên' : 'Đến $'}</span>
+                    {tier.upTo !== null && (
+                      <input type="number" value={tier.upTo} onChange={(e) => updateTier(rule, i, { upTo: Number(e.target.value) })} className={`${inputClass} max-w-[90px]`} />
+                    )}
+                    <input type="number" step="0.1" value={tier.rate} onChange={(e) => updateTier(rule, i, { rate: Number(e.target.value) })} className={`${inputClass} max-w-[70px]`} />
+                    <span>%</span>
+                    {tier.upTo !== null && (
+                      <button onClick={() => updateRule(rule.id, { tiers: rule.tiers!.filter((_, idx) => idx !== i) })} className="text-[10px] text-gray-300 hover:text-rose-500 font-bold">×</button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => {
+                    const bounded = (rule.tiers || []).filter(t => t.upTo !== null);
+                    const lastBound = bounded.length > 0 ? Math.max(...bounded.map(t => t.upTo!)) : 0;
+                    updateRule(rule.id, { tiers: [...(rule.tiers || []), { upTo: lastBound + 500, rate: 0 }] });
+                  }}
+                  className="text-[10px] font-bold text-indigo-500 hover:text-indigo-700"
+                >
+                  + Thêm bậc
+                </button>
+              </div>
+            )}
+
+            {rule.type === 'perVideo' && (
+              <div className="flex flex-wrap items-center gap-2 text-[11px] text-indigo-700">
+                <span>$</span>
+                <input type="number" step="0.1" value={rule.perVideoAmount ?? 0} onChange={(e) => updateRule(rule.id, { perVideoAmount: Number(e.target.value) })} className={`${inputClass} max-w-[70px]`} />
+                <span>mỗi video trên $</span>
+                <input type="number" step="0.1" value={rule.minVideoEarning ?? 0} onChange={(e) => updateRule(rule.id, { minVideoEarning: Number(e.target.value) })} className={`${inputClass} max-w-[70px]`} />
+              </div>
+            )}
+
+            {rule.type === 'minimum' && (
+              <div className="flex items-center gap-2 text-[11px] text-indigo-700">
+                <span>Tối thiểu $</span>
+                <input type="number" step="0.1" value={rule.minimumPayout ?? 0} onChange={(e) => updateRule(rule.id, { minimumPayout: Number(e.target.value) })} className={`${inputClass} max-w-[90px]`} />
+                <span>mỗi nhãn</span>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-1 max-h-[80px] overflow-y-auto custom-scrollbar">
+              <span className="text-[10px] text-indigo-400 font-medium mr-1">Áp dụng cho:</span>
+              {rule.labels.length === 0 && <span className="text-[10px] font-bold text-indigo-600">Tất cả nhãn</span>}
+              {Array.from(new Set([...rule.labels, ...availableLabels])).map(label => (
+                <button
+                  key={label}
+                  onClick={() => toggleRuleLabel(rule, label)}
+                  className={`px-2 py-0.5 rounded-full text-[10px] font-medium transition-all ${rule.labels.includes(label) ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BonusRulesEditor;
@@ -0,0 +1,176 @@
+
+import React, { useState } from 'react';
+import { ColumnField, ColumnMapping, ColumnPreset, ParseSettings, ParsedFile } from '../types';
+import { COLUMN_FIELDS, hasRequiredColumns } from '../services/columnMappingService';
+import { DATE_FORMAT_OPTIONS, NUMBER_LOCALE_OPTIONS, detectParseSettings } from '../services/localeService';
+
+interface ColumnMappingWizardProps {
+  files: ParsedFile[];
+  presets: ColumnPreset[];
+  onPresetsChange: (presets: ColumnPreset[]) => void;
+  onConfirm: (files: ParsedFile[]) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ files, presets, onPresetsChange, onConfirm, onCancel }) => {
+  const [mappings, setMappings] = useState<ColumnMapping[]>(() => files.map(f => f.mapping));
+  const [settings, setSettings] = useState<ParseSettings[]>(() => files.map(f => f.parseSettings));
+  const [detected, setDetected] = useState<ParseSettings[]>(() => files.map(f => f.detectedSettings));
+  const [presetName, setPresetName] = useState("");
+
+  const updateField = (fileIndex: number, field: ColumnField, header: string) => {
+    const mapping = { ...mappings[fileIndex], [field]: header || undefined };
+    setMappings(prev => prev.map((m, i) => i === fileIndex ? mapping : m));
+    if (field === 'earnings' || field === 'date') {
+      // A different source column means the earlier detection no longer applies
+      const redetected = detectParseSettings(files[fileIndex].sampleRows, mapping);
+      setDetected(prev => prev.map((d, i) => i === fileIndex ? redetected : d));
+      setSettings(prev => prev.map((s, i) => i === fileIndex ? redetected : s));
+    }
+  };
+
+  const updateSettings = (fileIndex: number, patch: Partial<ParseSettings>) => {
+    setSettings(prev => prev.map((s, i) => i === fileIndex ? { ...s, ...patch } : s));
+  };
+
+  const applyPreset = (fileIndex: number, presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+    const headers = files[fileIndex].headers;
+    const applicable = Object.fromEntries(
+      Object.entries(preset.mapping).filter(([, header]) => header && headers.includes(header))
+    ) as ColumnMapping;
+    setMappings(prev => prev.map((m, i) => i === fileIndex ? { ...m, ...applicable } : m));
+  };
+
+  const savePreset = (fileIndex: number) => {
+    const name = presetName.trim();
+    if (!name) return;
+    const existing = presets.find(p => p.name === name);
+    const preset: ColumnPreset = { id: existing?.id || crypto.randomUUID(), name, mapping: mappings[fileIndex] };
+    onPresetsChange(existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset]);
+    setPresetName("");
+  };
+
+  const deletePreset = (id: string) => {
+    onPresetsChange(presets.filter(p => p.id !== id));
+  };
+
+  const canConfirm = mappings.every(hasRequiredColumns);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 animate-in fade-in slide-in-from-top-4">
+      <div className="mb-6">
+        <h3 className="text-lg font-bold text-gray-800">Ghép cột dữ liệu</h3>
+        <p className="text-xs text-gray-500 mt-1">Kiểm tra các cột chưa được nhận diện tự động cùng định dạng số và ngày của từng tệp trước khi phân tích.</p>
+      </div>
+
+      <div className="space-y-8">
+        {files.map((file, fileIndex) => (
+          <div key={fileIndex} className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <p className="text-sm font-bold text-indigo-600 truncate">{file.fileName} <span className="text-[10px] text-gray-400 font-medium">({file.rows ? `${file.rows.length} dòng` : `${file.headers.length} cột`})</span></p>
+              {presets.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => applyPreset(fileIndex, e.target.value)}
+                  className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs font-semibold text-gray-600 outline-none"
+                >
+                  <option value="">Áp dụng mẫu đã lưu...</option>
+                  {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {COLUMN_FIELDS.map(({ field, label, required }) => {
+                const value = mappings[fileIndex][field] || "";
+                return (
+                  <div key={field}>
+                    <label className="block text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">
+                      {label} {required && <span className="text-rose-500">*</span>}
+                    </label>
+                    <select
+                      value={value}
+                      onChange={(e) => updateField(fileIndex, field, e.target.value)}
+                      className={`w-full border rounded-xl px-3 py-2 text-xs font-semibold outline-none focus:ring-1 focus:ring-indigo-500 ${value ? 'bg-white border-gray-200 text-gray-700' : required ? 'bg-rose-50 border-rose-200 text-rose-500' : 'bg-amber-50 border-amber-200 text-amber-600'}`}
+                    >
+                      <option value="">— Không có —</option>
+                      {file.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Định dạng số</label>
+                <select
+                  value={settings[fileIndex].numberLocale}
+                  onChange={(e) => updateSettings(fileIndex, { numberLocale: e.target.value as ParseSettings['numberLocale'] })}
+                  className="w-full bg-white border border-gray-200 rounded-xl px-3 py-2 text-xs font-semibold text-gray-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  {NUMBER_LOCALE_OPTIONS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}{detected[fileIndex].numberLocale === o.value ? ' — tự động' : ''}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Định dạng ngày</label>
+                <select
+                  value={settings[fileIndex].dateFormat}
+                  onChange={(e) => updateSettings(fileIndex, { dateFormat: e.target.value as ParseSettings['dateFormat'] })}
+                  className="w-full bg-white border border-gray-200 rounded-xl px-3 py-2 text-xs font-semibold text-gray-700 outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  {DATE_FORMAT_OPTIONS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}{detected[fileIndex].dateFormat === o.value ? ' — tự động' : ''}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                placeholder="Tên mẫu (vd: YouTube EN)"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-1.5 text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+              />
+              <button
+                onClick={() => savePreset(fileIndex)}
+                disabled={!presetName.trim()}
+                className="text-xs font-bold text-indigo-600 hover:text-indigo-800 disabled:text-gray-300"
+              >
+                Lưu thành mẫu
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {presets.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-gray-100 flex flex-wrap items-center gap-2">
+          <span className="text-[10px] text-gray-400 font-medium">Mẫu đã lưu:</span>
+          {presets.map(p => (
+            <span key={p.id} className="text-[10px] bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full font-bold flex items-center gap-1">
+              {p.name}
+              <button onClick={() => deletePreset(p.id)} className="text-gray-300 hover:text-rose-500">×</button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end gap-3">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-semibold text-gray-500 hover:bg-gray-100 transition-colors">Hủy</button>
+        <button
+          onClick={() => onConfirm(files.map((f, i) => ({ ...f, mapping: mappings[i], parseSettings: settings[i], detectedSettings: detected[i] })))}
+          disabled={!canConfirm}
+          className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg font-semibold text-sm transition-colors"
+        >
+          Phân tích
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { CurrencyRates, PayoutCurrency } from '../types';
+import { CURRENCIES, DEFAULT_CURRENCY_RATES } from '../services/currencyService';
+
+interface CurrencySettingsProps {
+  currency: PayoutCurrency;
+  rates: CurrencyRates;
+  onCurrencyChange: (currency: PayoutCurrency) => void;
+  onRatesChange: (rates: CurrencyRates) => void;
+}
+
+const inputClass = "w-full bg-white border border-indigo-200 rounded-lg px-2 py-1 text-xs text-indigo-900 font-bold focus:ring-1 focus:ring-indigo-500 outline-none";
+
+// VND follows the rate table and USD needs no conversion, so only the rest get a rate field
+const CONFIGURABLE = CURRENCIES.filter(c => c.code !== 'VND' && c.code !== 'USD');
+
+const CurrencySettings: React.FC<CurrencySettingsProps> = ({ currency, rates, onCurrencyChange, onRatesChange }) => (
+  <div className="mt-6 pt-4 border-t border-indigo-100">
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+      <label className="block text-xs font-semibold text-indigo-700 uppercase tracking-wider">Tiền tệ thanh toán</label>
+      <select
+        value={currency}
+        onChange={(e) => onCurrencyChange(e.target.value as PayoutCurrency)}
+        className={`${inputClass} max-w-[200px]`}
+      >
+        {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+      </select>
+    </div>
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+      {CONFIGURABLE.map(c => (
+        <div key={c.code} className="flex items-center gap-2 text-[11px] text-indigo-700">
+          <span className="shrink-0 font-bold">1$ =</span>
+          <input
+            type="number"
+            step="0.01"
+            value={rates[c.code] ?? DEFAULT_CURRENCY_RATES[c.code] ?? ''}
+            onChange={(e) => onRatesChange({ ...rates, [c.code]: Number(e.target.value) })}
+            className={inputClass}
+          />
+          <span className="shrink-0">{c.code}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default CurrencySettings;
@@ -0,0 +1,110 @@
+
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { EarningTier, TierSummary } from '../types';
+import { DEFAULT_EARNING_TIERS, createTier, describeTierRange, sortTiers } from '../services/tierService';
+
+interface EarningTiersPanelProps {
+  summaries: TierSummary[];
+  tiers: EarningTier[];
+  onTiersChange: (tiers: EarningTier[]) => void;
+}
+
+const TIER_COLORS = ['#f59e0b', '#06b6d4', '#6366f1', '#10b981', '#ec4899', '#8b5cf6'];
+
+const inputClass = "bg-white border border-gray-200 rounded-lg px-2 py-1 text-xs font-bold text-gray-700 focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const EarningTiersPanel: React.FC<EarningTiersPanelProps> = ({ summaries, tiers, onTiersChange }) => {
+  const [editing, setEditing] = useState(false);
+  const totalVideos = summaries.reduce((acc, s) => acc + s.videoCount, 0);
+  const totalEarning = summaries.reduce((acc, s) => acc + s.totalEarning, 0);
+  const chartData = summaries.map(s => ({ name: s.tier.name, videoCount: s.videoCount, totalEarning: Number(s.totalEarning.toFixed(2)) }));
+
+  const updateTier = (id: string, patch: Partial<EarningTier>) => {
+    onTiersChange(tiers.map(t => t.id === id ? { ...t, ...patch } : t));
+  };
+
+  const addTier = () => {
+    const bounded = tiers.filter(t => t.upTo !== null);
+    const lastBound = bounded.length > 0 ? Math.max(...bounded.map(t => t.upTo!)) : 0;
+    onTiersChange([...tiers, createTier(lastBound * 10 || 1)]);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-2">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Phân tầng thu nhập video</h3>
+          <p className="text-[10px] text-gray-400 font-medium mt-0.5">Số video và doanh thu theo từng mức thu nhập mỗi video</p>
+        </div>
+        <button onClick={() => setEditing(!editing)} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">
+          {editing ? 'Xong' : 'Tùy chỉnh mức'}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="bg-gray-50 rounded-xl p-4 mb-6 space-y-2">
+          {sortTiers(tiers).map(tier => (
+            <div key={tier.id} className="flex items-center gap-2 text-[11px] text-gray-600">
+              <input type="text" value={tier.name} onChange={(e) => updateTier(tier.id, { name: e.target.value })} className={`${inputClass} flex-1 min-w-0`} />
+              <span className="shrink-0">{tier.upTo === null ? 'Phần trên' : 'Dưới $'}</span>
+              {tier.upTo !== null && (
+                <input type="number" value={tier.upTo} onChange={(e) => updateTier(tier.id, { upTo: Number(e.target.value) })} className={`${inputClass} max-w-[90px]`} />
+              )}
+              {tier.upTo !== null && (
+                <button onClick={() => onTiersChange(tiers.filter(t => t.id !== tier.id))} className="text-[10px] text-gray-300 hover:text-rose-500 font-bold">×</button>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center gap-4 pt-1">
+            <button onClick={addTier} className="text-[10px] font-bold text-indigo-500 hover:text-indigo-700">+ Thêm mức</button>
+            <button onClick={() => onTiersChange(DEFAULT_EARNING_TIERS)} className="text-[10px] font-bold text-gray-400 hover:text-gray-600">Khôi phục mặc định</button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {summaries.map((s, i) => (
+          <div key={s.tier.id} className="rounded-xl border border-gray-100 p-3" style={{ borderLeft: `4px solid ${TIER_COLORS[i % TIER_COLORS.length]}` }}>
+            <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest truncate" title={s.tier.name}>{s.tier.name}</p>
+            <p className="text-[10px] text-gray-400 mb-1">{describeTierRange(s)}</p>
+            <div className="flex items-baseline gap-1">
+              <h4 className="text-xl font-black text-gray-800">{s.videoCount}</h4>
+              <span className="text-[10px] text-gray-400 font-medium">
+                video{totalVideos > 0 ? ` · ${((s.videoCount / totalVideos) * 100).toFixed(1)}%` : ''}
+              </span>
+            </div>
+            <p className="text-xs font-bold text-indigo-600">
+              ${s.totalEarning.toFixed(2)}
+              {totalEarning > 0 && <span className="text-[10px] text-gray-400 font-medium"> · {((s.totalEarning / totalEarning) * 100).toFixed(1)}% doanh thu</span>}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {totalVideos > 0 ? (
+        <div className="h-56 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 10}} />
+              <YAxis yAxisId="count" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} allowDecimals={false} />
+              <YAxis yAxisId="earning" orientation="right" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+              <Tooltip
+                cursor={{fill: '#f8fafc'}}
+                contentStyle={{borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'}}
+              />
+              <Legend wrapperStyle={{fontSize: 11}} />
+              <Bar yAxisId="count" dataKey="videoCount" name="Số video" fill="#cbd5e1" radius={[4, 4, 0, 0]} />
+              <Bar yAxisId="earning" dataKey="totalEarning" name="Doanh thu ($)" fill="#6366f1" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-56 flex items-center justify-center text-gray-400 text-sm italic">Không có dữ liệu</div>
+      )}
+    </div>
+  );
+};
+
+export default EarningTiersPanel;
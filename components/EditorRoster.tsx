@@ -0,0 +1,137 @@
+
+import React, { useState } from 'react';
+import { Editor, PayoutCurrency, PayoutStatement } from '../types';
+import { createEditor, findEditorForLabel, formatPayout } from '../services/rosterService';
+import { CURRENCIES } from '../services/currencyService';
+
+interface EditorRosterProps {
+  editors: Editor[];
+  availableLabels: string[];
+  unassignedLabels: string[];
+  statements: PayoutStatement[];
+  onChange: (editors: Editor[]) => void;
+  onExportStatement: (statement: PayoutStatement) => void;
+  onPrintStatement: (statement: PayoutStatement) => void;
+  readOnly?: boolean;
+}
+
+const inputClass = "w-full bg-white border border-gray-200 rounded-lg px-2 py-1 text-xs text-gray-700 font-semibold focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const EditorRoster: React.FC<EditorRosterProps> = ({ editors, availableLabels, unassignedLabels, statements, onChange, onExportStatement, onPrintStatement, readOnly }) => {
+  const [editing, setEditing] = useState(false);
+
+  const updateEditor = (id: string, patch: Partial<Editor>) => {
+    onChange(editors.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  const toggleLabel = (editor: Editor, label: string) => {
+    updateEditor(editor.id, {
+      labels: editor.labels.includes(label) ? editor.labels.filter(l => l !== label) : [...editor.labels, label]
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-2">
+        <h3 className="text-lg font-bold text-gray-800">Nhân sự & Phiếu thanh toán</h3>
+        {!readOnly && <div className="flex items-center gap-3">
+          {editing && (
+            <button onClick={() => onChange([...editors, createEditor()])} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">
+              + Thêm người
+            </button>
+          )}
+          <button onClick={() => setEditing(!editing)} className="text-xs font-bold text-gray-500 hover:text-gray-700">
+            {editing ? 'Xong' : 'Sửa danh sách'}
+          </button>
+        </div>}
+      </div>
+
+      {unassignedLabels.length > 0 && (
+        <p className="text-[11px] text-amber-600 font-medium mb-4">
+          Nhãn chưa gán cho ai: <span className="font-bold">{unassignedLabels.join(', ')}</span>
+        </p>
+      )}
+
+      {editing && !readOnly && (
+        <div className="space-y-3 mb-6">
+          {editors.length === 0 && <p className="text-[11px] text-gray-400 italic">Chưa có ai trong danh sách.</p>}
+          {editors.map(editor => (
+            <div key={editor.id} className="bg-gray-50 rounded-xl border border-gray-100 p-3 space-y-2">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input type="text" placeholder="Họ tên" value={editor.name} onChange={(e) => updateEditor(editor.id, { name: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Ngân hàng" value={editor.bankName || ""} onChange={(e) => updateEditor(editor.id, { bankName: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Số tài khoản" value={editor.bankAccount || ""} onChange={(e) => updateEditor(editor.id, { bankAccount: e.target.value })} className={inputClass} />
+                <input type="text" placeholder="Chủ tài khoản" value={editor.accountHolder || ""} onChange={(e) => updateEditor(editor.id, { accountHolder: e.target.value })} className={inputClass} />
+                <select
+                  value={editor.payoutCurrency}
+                  onChange={(e) => updateEditor(editor.id, { payoutCurrency: e.target.value as PayoutCurrency })}
+                  className={inputClass}
+                >
+                  {CURRENCIES.map(c => <option key={c.code} value={c.code}>Nhận bằng {c.code}</option>)}
+                </select>
+                <button onClick={() => onChange(editors.filter(e => e.id !== editor.id))} className="text-[10px] text-gray-300 hover:text-rose-500 font-bold justify-self-end">Xóa</button>
+              </div>
+              <div className="flex flex-wrap gap-1 max-h-[80px] overflow-y-auto custom-scrollbar">
+                <span className="text-[10px] text-gray-400 font-medium mr-1">Nhãn:</span>
+                {Array.from(new Set([...editor.labels, ...availableLabels])).map(label => {
+                  const owner = findEditorForLabel(editors, label);
+                  const takenByOther = owner && owner.id !== editor.id;
+                  return (
+                    <button
+                      key={label}
+                      onClick={() => toggleLabel(editor, label)}
+                      disabled={takenByOther}
+                      title={takenByOther ? `Đã gán cho ${owner!.name}` : undefined}
+                      className={`px-2 py-0.5 rounded-full text-[10px] font-medium transition-all ${editor.labels.includes(label) ? 'bg-indigo-600 text-white' : takenByOther ? 'bg-gray-50 text-gray-300 cursor-not-allowed' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {statements.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs font-bold text-gray-400 uppercase tracking-wider border-b">
+                <th className="pb-4 px-2">Người nhận</th>
+                <th className="pb-4 px-2">Số Video</th>
+                <th className="pb-4 px-2 text-right">Doanh thu ($)</th>
+                <th className="pb-4 px-2 text-right text-emerald-600">Bonus ($)</th>
+                <th className="pb-4 px-2 text-right text-indigo-600">Thực nhận</th>
+                <th className="pb-4 px-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {statements.map(statement => (
+                <tr key={statement.editor.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="py-3 px-2">
+                    <p className="font-bold text-gray-700 text-sm">{statement.editor.name}</p>
+                    <p className="text-[10px] text-gray-400">{statement.editor.labels.join(', ') || 'Chưa gán nhãn'}</p>
+                  </td>
+                  <td className="py-3 px-2 text-gray-500 text-sm">{statement.videos.length}</td>
+                  <td className="py-3 px-2 text-right text-gray-600 text-sm">${statement.totalEarning.toFixed(2)}</td>
+                  <td className="py-3 px-2 text-right font-bold text-emerald-600 text-sm">${statement.bonus.toFixed(2)}</td>
+                  <td className="py-3 px-2 text-right font-extrabold text-indigo-700 text-sm">{formatPayout(statement)}</td>
+                  <td className="py-3 px-2 text-right whitespace-nowrap">
+                    <button onClick={() => onExportStatement(statement)} className="text-[10px] font-bold text-emerald-600 hover:text-emerald-800 mr-3">Excel</button>
+                    <button onClick={() => onPrintStatement(statement)} className="text-[10px] font-bold text-indigo-500 hover:text-indigo-700">In / PDF</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400 italic">Thêm người vào danh sách và gán nhãn để tạo phiếu thanh toán.</p>
+      )}
+    </div>
+  );
+};
+
+export default EditorRoster;
@@ -0,0 +1,101 @@
+
+import React from 'react';
+import { ExchangeRateEntry, RateBasis } from '../types';
+import { normalizeRatePeriod, parseRateTable, upsertRates } from '../services/exchangeRateService';
+
+interface ExchangeRateTableProps {
+  rates: ExchangeRateEntry[];
+  basis: RateBasis;
+  payoutDate: string;
+  onRatesChange: (rates: ExchangeRateEntry[]) => void;
+  onBasisChange: (basis: RateBasis) => void;
+  onPayoutDateChange: (date: string) => void;
+}
+
+const inputClass = "w-full bg-white border border-indigo-200 rounded-lg px-2 py-1 text-xs text-indigo-900 font-bold focus:ring-1 focus:ring-indigo-500 outline-none";
+
+const ExchangeRateTable: React.FC<ExchangeRateTableProps> = ({ rates, basis, payoutDate, onRatesChange, onBasisChange, onPayoutDateChange }) => {
+  const updateEntry = (index: number, patch: Partial<ExchangeRateEntry>) => {
+    onRatesChange(rates.map((e, i) => i === index ? { ...e, ...patch } : e));
+  };
+
+  const addEntry = () => {
+    const now = new Date();
+    const period = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    onRatesChange(upsertRates(rates, [{ period, rate: rates[rates.length - 1]?.rate || 25400 }]));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const { entries, skipped } = parseRateTable(await file.text());
+    if (entries.length === 0) {
+      alert("Không đọc được tỷ giá nào. Tệp cần 2 cột: tháng/ngày và tỷ giá.");
+      return;
+    }
+    onRatesChange(upsertRates(rates, entries));
+    if (skipped > 0) alert(`Đã nhập ${entries.length} tỷ giá, bỏ qua ${skipped} dòng không hợp lệ.`);
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-indigo-100">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <label className="block text-xs font-semibold text-indigo-700 uppercase tracking-wider">Tỷ giá theo kỳ</label>
+        <div className="flex items-center gap-2">
+          <button onClick={addEntry} className="text-[10px] font-bold text-indigo-600 bg-white border border-indigo-200 hover:bg-indigo-100 px-2 py-1 rounded-lg transition-colors">
+            + Thêm
+          </button>
+          <label className="text-[10px] font-bold text-indigo-600 bg-white border border-indigo-200 hover:bg-indigo-100 px-2 py-1 rounded-lg transition-colors cursor-pointer">
+            Nhập CSV
+            <input type="file" accept=".csv,.txt" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-[11px] text-indigo-700">
+        <div className="flex bg-white border border-indigo-200 p-0.5 rounded-lg">
+          {(['videoDate', 'payoutDate'] as RateBasis[]).map(b => (
+            <button
+              key={b}
+              onClick={() => onBasisChange(b)}
+              className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${basis === b ? 'bg-indigo-600 text-white' : 'text-indigo-400 hover:text-indigo-600'}`}
+            >
+              {b === 'videoDate' ? 'Theo ngày video' : 'Theo ngày thanh toán'}
+            </button>
+          ))}
+        </div>
+        <span>Ngày thanh toán</span>
+        <input type="date" value={payoutDate} onChange={(e) => onPayoutDateChange(e.target.value)} className={`${inputClass} max-w-[150px]`} />
+      </div>
+
+      {rates.length === 0 ? (
+        <p className="text-[11px] text-indigo-400 italic">Chưa có tỷ giá theo kỳ — dùng tỉ giá mặc định cho mọi ngày.</p>
+      ) : (
+        <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1 custom-scrollbar">
+          {rates.map((entry, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={entry.period}
+                onChange={(e) => updateEntry(i, { period: e.target.value })}
+                onBlur={(e) => {
+                  const period = normalizeRatePeriod(e.target.value);
+                  if (period) updateEntry(i, { period });
+                }}
+                placeholder="yyyy-mm hoặc yyyy-mm-dd"
+                className={`${inputClass} max-w-[140px] ${normalizeRatePeriod(entry.period) === entry.period ? '' : 'border-rose-300 text-rose-600'}`}
+              />
+              <input type="number" value={entry.rate} onChange={(e) => updateEntry(i, { rate: Number(e.target.value) })} className={`${inputClass} max-w-[120px]`} />
+              <span className="text-[10px] text-indigo-400">VND</span>
+              <button onClick={() => onRatesChange(rates.filter((_, idx) => idx !== i))} className="text-[10px] text-gray-300 hover:text-rose-500 font-bold">×</button>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-[10px] text-indigo-400 mt-2">Ngày không có tỷ giá riêng dùng tỷ giá của tháng, rồi mốc gần nhất trước đó, cuối cùng là tỉ giá mặc định ở trên.</p>
+    </div>
+  );
+};
+
+export default ExchangeRateTable;
@@ -0,0 +1,150 @@
+
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { HashtagRankMetric, VideoEarning } from '../types';
+import { findHashtagPairs, summarizeHashtags } from '../services/analyticsService';
+
+interface HashtagReportProps {
+  videos: VideoEarning[];
+  lowEarningThreshold: number;
+}
+
+const METRICS: { value: HashtagRankMetric; label: string }[] = [
+  { value: 'totalEarning', label: 'Tổng thu nhập' },
+  { value: 'averageEarning', label: 'TB / video' },
+  { value: 'videoCount', label: 'Số video' }
+];
+
+const MIN_VIDEO_OPTIONS = [1, 2, 3, 5, 10];
+
+// Keeps the horizontal chart readable
+const CHART_LIMIT = 15;
+
+const formatMetric = (value: number, metric: HashtagRankMetric) =>
+  metric === 'videoCount' ? String(value) : `$${value.toFixed(2)}`;
+
+const HashtagReport: React.FC<HashtagReportProps> = ({ videos, lowEarningThreshold }) => {
+  const [metric, setMetric] = useState<HashtagRankMetric>('totalEarning');
+  // Averages over one or two videos are mostly noise
+  const [minVideos, setMinVideos] = useState(2);
+
+  const summaries = useMemo(() => summarizeHashtags(videos, lowEarningThreshold), [videos, lowEarningThreshold]);
+  const pairs = useMemo(() => findHashtagPairs(videos, 10), [videos]);
+
+  const ranked = useMemo(
+    () => summaries.filter(s => s.videoCount >= minVideos).sort((a, b) => b[metric] - a[metric]),
+    [summaries, minVideos, metric]
+  );
+  const chartData = ranked.slice(0, CHART_LIMIT).map(s => ({ tag: s.tag, value: Number(s[metric].toFixed(2)) }));
+
+  if (summaries.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <h3 className="text-lg font-bold text-gray-800 mb-2">Hiệu quả Hashtag</h3>
+        <p className="text-sm text-gray-400 italic">Các video đã lọc không có hashtag nào.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-2">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Hiệu quả Hashtag</h3>
+          <p className="text-[10px] text-gray-400 font-medium mt-0.5">{summaries.length} hashtag trên {videos.length} video đã lọc</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={minVideos}
+            onChange={(e) => setMinVideos(Number(e.target.value))}
+            className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-[11px] font-semibold text-gray-600 outline-none"
+          >
+            {MIN_VIDEO_OPTIONS.map(n => <option key={n} value={n}>Từ {n} video</option>)}
+          </select>
+          <div className="flex bg-gray-100 rounded-lg p-0.5">
+            {METRICS.map(m => (
+              <button
+                key={m.value}
+                onClick={() => setMetric(m.value)}
+                className={`px-3 py-1 rounded-md text-[11px] font-bold transition-all ${metric === m.value ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {chartData.length > 0 ? (
+        <div className="w-full" style={{ height: Math.max(chartData.length * 28, 120) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} layout="vertical" margin={{ left: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 10}} />
+              <YAxis type="category" dataKey="tag" width={120} axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 10}} />
+              <Tooltip
+                formatter={(value) => formatMetric(Number(value), metric)}
+                cursor={{fill: '#f8fafc'}}
+                contentStyle={{borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'}}
+              />
+              <Bar dataKey="value" name={METRICS.find(m => m.value === metric)?.label} fill="#f59e0b" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-32 flex items-center justify-center text-gray-400 text-sm italic">Không có hashtag nào đủ {minVideos} video</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+        <div className="lg:col-span-2 max-h-[320px] overflow-y-auto pr-2 custom-scrollbar">
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-white shadow-sm z-10">
+              <tr className="text-xs font-bold text-gray-400 uppercase border-b">
+                <th className="py-2 px-2">Hashtag</th>
+                <th className="py-2 px-2 text-right">Video</th>
+                <th className="py-2 px-2 text-right">Tổng ($)</th>
+                <th className="py-2 px-2 text-right">TB ($)</th>
+                <th className="py-2 px-2 text-right">&lt; {lowEarningThreshold}$</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {ranked.map(s => (
+                <tr key={s.tag} className="hover:bg-gray-50 transition-colors">
+                  <td className="py-2 px-2 text-[11px] font-bold text-gray-700">{s.tag}</td>
+                  <td className="py-2 px-2 text-right text-[11px] text-gray-600">{s.videoCount}</td>
+                  <td className="py-2 px-2 text-right text-[11px] font-bold text-indigo-600">${s.totalEarning.toFixed(2)}</td>
+                  <td className="py-2 px-2 text-right text-[11px] text-gray-600">${s.averageEarning.toFixed(2)}</td>
+                  <td className={`py-2 px-2 text-right text-[11px] font-bold ${s.lowEarningShare >= 0.5 ? 'text-amber-600' : 'text-gray-400'}`}>
+                    {(s.lowEarningShare * 100).toFixed(0)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <p className="text-xs font-bold text-gray-400 uppercase mb-2">Hay đi cùng nhau</p>
+          {pairs.length > 0 ? (
+            <div className="space-y-2">
+              {pairs.map(pair => (
+                <div key={pair.tags.join(' ')} className="flex items-center justify-between gap-2 text-[11px]">
+                  <div className="flex flex-wrap gap-1 min-w-0">
+                    {pair.tags.map(tag => (
+                      <span key={tag} className="bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded font-bold truncate">{tag}</span>
+                    ))}
+                  </div>
+                  <span className="shrink-0 text-gray-500">{pair.videoCount} video · <span className="font-bold text-indigo-600">${pair.totalEarning.toFixed(2)}</span></span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400 italic">Không có video nào dùng từ hai hashtag trở lên.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HashtagReport;
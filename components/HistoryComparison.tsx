@@ -0,0 +1,189 @@
+
+import React, { useState, useMemo } from 'react';
+import { AnalysisResult, MetricDelta } from '../types';
+import { comparePeriods } from '../services/comparisonService';
+import { INSIGHT_PRIORITY_LABELS } from '../services/insightSchemaService';
+
+interface HistoryComparisonProps {
+  history: AnalysisResult[];
+  onClose: () => void;
+}
+
+const describeEntry = (item: AnalysisResult) => {
+  const period = item.startDate ? `${item.startDate} - ${item.endDate}` : new Date(item.timestamp).toLocaleDateString('vi-VN');
+  return `${item.fileName} (${period})`;
+};
+
+const DeltaCell: React.FC<{ metric: MetricDelta; format: (value: number) => string }> = ({ metric, format }) => {
+  const color = metric.delta > 0 ? 'text-emerald-600' : metric.delta < 0 ? 'text-rose-500' : 'text-gray-400';
+  return (
+    <td className="py-3 px-2 text-right">
+      <div className="text-[11px] text-gray-400">{format(metric.previous)} → <span className="font-bold text-gray-700">{format(metric.current)}</span></div>
+      <div className={`text-[10px] font-black ${color}`}>
+        {metric.delta > 0 ? '+' : ''}{format(metric.delta)}
+        {metric.percentChange !== null ? ` (${metric.percentChange > 0 ? '+' : ''}${metric.percentChange.toFixed(1)}%)` : ' (mới)'}
+      </div>
+    </td>
+  );
+};
+
+const formatUSD = (value: number) => `$${value.toFixed(2)}`;
+const formatCount = (value: number) => value.toString();
+
+const HistoryComparison: React.FC<HistoryComparisonProps> = ({ history, onClose }) => {
+  const [previousId, setPreviousId] = useState<string>(history[1]?.id || '');
+  const [currentId, setCurrentId] = useState<string>(history[0]?.id || '');
+
+  const previous = history.find(h => h.id === previousId);
+  const current = history.find(h => h.id === currentId);
+
+  const comparison = useMemo(() => {
+    if (!previous || !current || previous.id === current.id) return null;
+    return comparePeriods(previous, current);
+  }, [previous, current]);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-6 animate-in fade-in slide-in-from-top-4">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-bold text-gray-800">So sánh giữa hai kỳ</h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors text-gray-500">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      {history.length < 2 ? (
+        <div className="py-8 text-center text-gray-400 italic text-sm">Cần ít nhất 2 phân tích trong lịch sử để so sánh.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Kỳ trước</label>
+              <select
+                value={previousId}
+                onChange={(e) => setPreviousId(e.target.value)}
+                className="w-full bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-xs font-semibold text-gray-700 outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                {history.map(item => <option key={item.id} value={item.id}>{describeEntry(item)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Kỳ hiện tại</label>
+              <select
+                value={currentId}
+                onChange={(e) => setCurrentId(e.target.value)}
+                className="w-full bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-xs font-semibold text-gray-700 outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                {history.map(item => <option key={item.id} value={item.id}>{describeEntry(item)}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {!comparison ? (
+            <div className="py-8 text-center text-gray-400 italic text-sm">Vui lòng chọn hai kỳ khác nhau.</div>
+          ) : (
+            <div className="space-y-8">
+              <div className="flex items-baseline gap-3">
+                <span className="text-xs font-bold text-gray-400 uppercase tracking-widest">Tổng doanh thu</span>
+                <span className="text-sm text-gray-500">{formatUSD(comparison.grandTotal.previous)} → </span>
+                <span className="text-xl font-black text-indigo-600">{formatUSD(comparison.grandTotal.current)}</span>
+                {comparison.grandTotal.percentChange !== null && (
+                  <span className={`text-xs font-black ${comparison.grandTotal.delta >= 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+                    {comparison.grandTotal.percentChange > 0 ? '+' : ''}{comparison.grandTotal.percentChange.toFixed(1)}%
+                  </span>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-xs font-bold text-gray-400 uppercase tracking-wider border-b">
+                      <th className="pb-3 px-2">Nhãn</th>
+                      <th className="pb-3 px-2 text-right">Doanh thu ($)</th>
+                      <th className="pb-3 px-2 text-right">Số Video</th>
+                      <th className="pb-3 px-2 text-right">$/Video</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {comparison.labels.map(item => (
+                      <tr key={item.label} className="hover:bg-gray-50 transition-colors">
+                        <td className="py-3 px-2 font-bold text-gray-700 text-sm">{item.label}</td>
+                        <DeltaCell metric={item.totalEarning} format={formatUSD} />
+                        <DeltaCell metric={item.videoCount} format={formatCount} />
+                        <DeltaCell metric={item.earningPerVideo} format={formatUSD} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {comparison.insights && (
+                <div>
+                  <h4 className="text-sm font-bold text-gray-700 mb-3">Đánh giá AI</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="bg-gray-50 rounded-xl p-3">
+                      <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Nhãn hiệu quả nhất</p>
+                      <p className="text-xs text-gray-500">
+                        {comparison.insights.previous.topLabel?.label || '—'} → <span className="font-bold text-gray-800">{comparison.insights.current.topLabel?.label || '—'}</span>
+                      </p>
+                    </div>
+                    <div className="bg-gray-50 rounded-xl p-3">
+                      <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Rủi ro thu nhập thấp</p>
+                      <p className="text-xs text-gray-500">
+                        {INSIGHT_PRIORITY_LABELS[comparison.insights.previous.lowEarningRisk.level]} → <span className="font-bold text-gray-800">{INSIGHT_PRIORITY_LABELS[comparison.insights.current.lowEarningRisk.level]}</span>
+                      </p>
+                    </div>
+                    <div className="bg-gray-50 rounded-xl p-3">
+                      <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Nhãn kém hiệu quả</p>
+                      {comparison.insights.newlyUnderperforming.length === 0 && comparison.insights.recovered.length === 0 ? (
+                        <p className="text-xs text-gray-400 italic">Không thay đổi</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {comparison.insights.newlyUnderperforming.map(label => (
+                            <span key={label} className="text-[10px] bg-rose-50 text-rose-600 px-2 py-0.5 rounded-full font-bold">+ {label}</span>
+                          ))}
+                          {comparison.insights.recovered.map(label => (
+                            <span key={label} className="text-[10px] bg-emerald-50 text-emerald-600 px-2 py-0.5 rounded-full font-bold">✓ {label}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-bold text-gray-700 mb-3">Video xuất hiện ở cả hai kỳ ({comparison.commonVideos.length})</h4>
+                {comparison.commonVideos.length > 0 ? (
+                  <div className="max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+                    <table className="w-full text-left">
+                      <thead className="sticky top-0 bg-white shadow-sm z-10">
+                        <tr className="text-xs font-bold text-gray-400 uppercase border-b">
+                          <th className="py-3 px-2">Tiêu đề</th>
+                          <th className="py-3 px-2">Nhãn</th>
+                          <th className="py-3 px-2 text-right">Thu nhập ($)</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-50">
+                        {comparison.commonVideos.map((video, i) => (
+                          <tr key={i} className="hover:bg-gray-50 transition-colors">
+                            <td className="py-3 px-2 text-[11px] font-medium text-gray-700 line-clamp-2">{video.title}</td>
+                            <td className="py-3 px-2 text-[11px] text-gray-500">{video.label}</td>
+                            <DeltaCell metric={video.totalEarning} format={formatUSD} />
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-400 italic py-2">Không có video chung giữa hai kỳ.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryComparison;
@@ -0,0 +1,84 @@
+
+import React from 'react';
+import { InsightPriority, StructuredInsight } from '../types';
+import { INSIGHT_PRIORITY_LABELS, sortRecommendations } from '../services/insightSchemaService';
+import { providerLabel } from '../services/insightService';
+
+interface InsightCardsProps {
+  insight: StructuredInsight;
+  availableLabels: string[];
+  onSelectLabel?: (label: string) => void;
+}
+
+const PRIORITY_STYLES: Record<InsightPriority, string> = {
+  high: 'bg-rose-500/30 text-rose-100',
+  medium: 'bg-amber-500/30 text-amber-100',
+  low: 'bg-emerald-500/30 text-emerald-100'
+};
+
+const InsightCards: React.FC<InsightCardsProps> = ({ insight, availableLabels, onSelectLabel }) => {
+  // Models sometimes name labels that are not in the data; those stay plain text
+  const labelLink = (label: string) => availableLabels.includes(label) && onSelectLabel ? (
+    <button onClick={() => onSelectLabel(label)} className="font-bold text-white underline decoration-indigo-400 hover:decoration-white" title="Chỉ xem nhãn này">
+      {label}
+    </button>
+  ) : (
+    <span className="font-bold text-white">{label}</span>
+  );
+
+  return (
+    <div className="space-y-3 mb-6 text-sm">
+      <p className="text-indigo-100 leading-relaxed">{insight.summary}</p>
+
+      {insight.topLabel && (
+        <div className="bg-emerald-500/15 border border-emerald-400/30 rounded-xl p-3">
+          <p className="text-[10px] font-bold text-emerald-300 uppercase tracking-widest mb-1">Nhãn hiệu quả nhất</p>
+          <p className="text-xs text-indigo-100">{labelLink(insight.topLabel.label)} — {insight.topLabel.reason}</p>
+        </div>
+      )}
+
+      {insight.underperformingLabels.length > 0 && (
+        <div className="bg-rose-500/15 border border-rose-400/30 rounded-xl p-3">
+          <p className="text-[10px] font-bold text-rose-300 uppercase tracking-widest mb-1">Nhãn kém hiệu quả</p>
+          <ul className="space-y-1">
+            {insight.underperformingLabels.map(note => (
+              <li key={note.label} className="text-xs text-indigo-100">{labelLink(note.label)} — {note.reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {insight.recommendations.length > 0 && (
+        <div className="bg-indigo-800/60 rounded-xl p-3">
+          <p className="text-[10px] font-bold text-indigo-300 uppercase tracking-widest mb-2">Khuyến nghị</p>
+          <ul className="space-y-2">
+            {sortRecommendations(insight.recommendations).map((rec, i) => (
+              <li key={i} className="flex items-start gap-2 text-xs text-indigo-100">
+                <span className={`shrink-0 text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${PRIORITY_STYLES[rec.priority]}`}>
+                  {INSIGHT_PRIORITY_LABELS[rec.priority]}
+                </span>
+                <span>
+                  {rec.text}
+                  {rec.label && <> ({labelLink(rec.label)})</>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-indigo-800/60 rounded-xl p-3 flex items-start gap-2">
+        <span className={`shrink-0 text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${PRIORITY_STYLES[insight.lowEarningRisk.level]}`}>
+          Rủi ro {INSIGHT_PRIORITY_LABELS[insight.lowEarningRisk.level]}
+        </span>
+        <p className="text-xs text-indigo-100">{insight.lowEarningRisk.note}</p>
+      </div>
+
+      <p className="text-[10px] text-indigo-400">
+        {providerLabel(insight.provider)}{insight.model ? ` · ${insight.model}` : ''} · {new Date(insight.generatedAt).toLocaleString('vi-VN')}
+      </p>
+    </div>
+  );
+};
+
+export default InsightCards;
@@ -0,0 +1,66 @@
+
+import React, { useState } from 'react';
+import { ParseWarning } from '../types';
+import { COLUMN_FIELDS } from '../services/columnMappingService';
+
+interface ParseWarningsPanelProps {
+  warnings: ParseWarning[];
+  totalCount: number;
+  onReconfigure?: () => void;
+}
+
+const fieldLabel = (field: ParseWarning['field']) => COLUMN_FIELDS.find(f => f.field === field)?.label || field;
+
+const ParseWarningsPanel: React.FC<ParseWarningsPanelProps> = ({ warnings, totalCount, onReconfigure }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="mb-6 bg-rose-50 border-l-4 border-rose-500 p-4 rounded-r-xl shadow-sm animate-in fade-in slide-in-from-top-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-bold text-rose-800 uppercase tracking-tight">Cảnh báo đọc dữ liệu ({totalCount})</h3>
+          <p className="text-xs text-rose-700 font-medium mt-1">
+            Một số ô không đọc được theo định dạng số/ngày đã chọn. Các ô thu nhập này đang được tính là 0.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          {onReconfigure && (
+            <button onClick={onReconfigure} className="text-xs font-bold text-rose-600 hover:text-rose-800">Chỉnh định dạng & phân tích lại</button>
+          )}
+          <button onClick={() => setExpanded(!expanded)} className="text-xs font-bold text-rose-500 hover:text-rose-700">
+            {expanded ? 'Thu gọn' : 'Xem chi tiết'}
+          </button>
+        </div>
+      </div>
+      {expanded && (
+        <div className="mt-3 max-h-[240px] overflow-y-auto pr-2 custom-scrollbar">
+          <table className="w-full text-left text-[11px]">
+            <thead className="sticky top-0 bg-rose-50">
+              <tr className="font-bold text-rose-400 uppercase">
+                <th className="py-1 px-2">Tệp</th>
+                <th className="py-1 px-2">Dòng</th>
+                <th className="py-1 px-2">Cột</th>
+                <th className="py-1 px-2">Giá trị</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-rose-100 text-rose-800">
+              {warnings.map((w, i) => (
+                <tr key={i}>
+                  <td className="py-1 px-2 truncate max-w-[200px]">{w.fileName}</td>
+                  <td className="py-1 px-2">{w.row}</td>
+                  <td className="py-1 px-2">{fieldLabel(w.field)}</td>
+                  <td className="py-1 px-2 font-mono">{w.value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {totalCount > warnings.length && (
+            <p className="text-[10px] text-rose-500 italic mt-2">Chỉ hiển thị {warnings.length}/{totalCount} cảnh báo đầu tiên.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParseWarningsPanel;
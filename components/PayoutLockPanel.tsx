@@ -0,0 +1,91 @@
+
+import React, { useState } from 'react';
+import { AnalysisResult } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, describeFilters } from '../services/auditService';
+
+interface PayoutLockPanelProps {
+  data: AnalysisResult;
+  onLock: () => void;
+  onUnlock: (reason: string) => void;
+}
+
+const formatValue = (value: string | number | null) => value === null ? '—' : typeof value === 'number' ? value.toLocaleString('vi-VN') : value;
+
+const PayoutLockPanel: React.FC<PayoutLockPanelProps> = ({ data, onLock, onUnlock }) => {
+  const [showLog, setShowLog] = useState(false);
+  const lock = data.payoutLock;
+  const auditLog = data.auditLog || [];
+
+  const handleLock = () => {
+    if (confirm("Chốt kỳ thanh toán này? Tỷ giá, quy tắc bonus, bộ lọc và số tiền bonus sẽ được giữ nguyên.")) onLock();
+  };
+
+  const handleUnlock = () => {
+    const reason = prompt("Lý do mở khóa kỳ đã chốt:");
+    if (reason && reason.trim()) onUnlock(reason.trim());
+  };
+
+  return (
+    <div className={`p-4 rounded-2xl border shadow-sm ${lock ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-gray-100'}`}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          {lock ? (
+            <>
+              <h3 className="text-sm font-bold text-emerald-800 uppercase tracking-tight">Kỳ đã chốt — chỉ xem</h3>
+              <p className="text-xs text-emerald-700 font-medium mt-1">
+                Chốt lúc {new Date(lock.lockedAt).toLocaleString('vi-VN')} · Tỷ giá {lock.exchangeRate.toLocaleString('vi-VN')} VND · 
+                {lock.bonusRules.length > 0 ? ` ${lock.bonusRules.length} quy tắc` : ` ${lock.bonusPercentage}%`} · {describeFilters(lock.filters)} · Tổng bonus ${lock.totalBonus.toFixed(2)}
+              </p>
+            </>
+          ) : (
+            <>
+              <h3 className="text-sm font-bold text-gray-700 uppercase tracking-tight">Kỳ thanh toán chưa chốt</h3>
+              <p className="text-xs text-gray-500 font-medium mt-1">Chốt kỳ để lưu lại chính xác tỷ giá, quy tắc và số tiền đã trả.</p>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          {auditLog.length > 0 && (
+            <button onClick={() => setShowLog(!showLog)} className="text-xs font-bold text-gray-500 hover:text-gray-700">
+              {showLog ? 'Ẩn nhật ký' : `Nhật ký (${auditLog.length})`}
+            </button>
+          )}
+          {lock ? (
+            <button onClick={handleUnlock} className="text-xs font-bold text-rose-500 hover:text-rose-700">Mở khóa</button>
+          ) : (
+            <button onClick={handleLock} className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1.5 rounded-lg font-semibold text-xs transition-colors">
+              Chốt kỳ
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showLog && (
+        <div className="mt-4 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar space-y-2">
+          {[...auditLog].reverse().map(entry => (
+            <div key={entry.id} className="bg-white rounded-xl border border-gray-100 p-3">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-[10px] font-black uppercase text-indigo-600">{AUDIT_ACTION_LABELS[entry.action]}</span>
+                <span className="text-[10px] text-gray-400">{new Date(entry.timestamp).toLocaleString('vi-VN')}</span>
+              </div>
+              {entry.note && <p className="text-[11px] text-gray-600 italic mb-1">{entry.note}</p>}
+              <table className="w-full text-left text-[11px]">
+                <tbody className="divide-y divide-gray-50">
+                  {entry.changes.map(change => (
+                    <tr key={change.field}>
+                      <td className="py-0.5 pr-2 text-gray-400 font-semibold">{AUDIT_FIELD_LABELS[change.field] || change.field}</td>
+                      <td className="py-0.5 pr-2 text-gray-500 line-through decoration-gray-300">{formatValue(change.oldValue)}</td>
+                      <td className="py-0.5 text-gray-800 font-bold">{formatValue(change.newValue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayoutLockPanel;
@@ -0,0 +1,117 @@
+
+import React, { useState } from 'react';
+import { TitleMatch, VideoConflict } from '../types';
+
+interface ReconciliationPanelProps {
+  conflicts: VideoConflict[];
+  titleMatches: TitleMatch[];
+  onResolve: (assetId: string, choice: { title?: string; label?: string }) => void;
+  onMergeTitle: (title: string) => void;
+}
+
+const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ conflicts, titleMatches, onResolve, onMergeTitle }) => {
+  const [expanded, setExpanded] = useState(false);
+  const total = conflicts.length + titleMatches.length;
+  const unresolved = conflicts.filter(c => !c.manuallyResolved).length + titleMatches.filter(m => !m.merged).length;
+
+  return (
+    <div className="mb-6 bg-violet-50 border-l-4 border-violet-500 p-4 rounded-r-xl shadow-sm animate-in fade-in slide-in-from-top-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-bold text-violet-800 uppercase tracking-tight">
+            Đối soát video ({total}{unresolved < total ? `, còn ${unresolved} chưa xử lý` : ''})
+          </h3>
+          <p className="text-xs text-violet-700 font-medium mt-1">
+            Cùng một Post ID nhưng có nhiều tiêu đề hoặc nhãn khác nhau, hoặc video không có Post ID trùng tiêu đề với một video có Post ID. Mặc định chọn giá trị mang nhiều thu nhập nhất và không tự gộp video.
+          </p>
+        </div>
+        <button onClick={() => setExpanded(!expanded)} className="text-xs font-bold text-violet-500 hover:text-violet-700 shrink-0">
+          {expanded ? 'Thu gọn' : 'Đối soát'}
+        </button>
+      </div>
+      {expanded && (
+        <div className="mt-4 space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+          {conflicts.map(conflict => (
+            <div key={conflict.assetId} className="bg-white rounded-xl border border-violet-100 p-3">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <a
+                  href={`https://www.facebook.com/reel/${conflict.assetId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[10px] text-indigo-500 hover:text-indigo-700 font-bold hover:underline"
+                >
+                  ID: {conflict.assetId}
+                </a>
+                {conflict.manuallyResolved && (
+                  <span className="text-[9px] font-black uppercase text-emerald-600 bg-emerald-50 px-1.5 py-0.5 rounded">Đã xử lý</span>
+                )}
+              </div>
+              {conflict.titles.length > 1 && (
+                <div className="mb-2">
+                  <p className="text-[10px] font-bold text-gray-400 uppercase mb-1">Tiêu đề</p>
+                  <div className="space-y-1">
+                    {conflict.titles.map(({ title, earning }) => (
+                      <label key={title} className="flex items-start gap-2 text-[11px] text-gray-700 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`title-${conflict.assetId}`}
+                          checked={conflict.resolvedTitle === title}
+                          onChange={() => onResolve(conflict.assetId, { title })}
+                          className="mt-0.5"
+                        />
+                        <span className="flex-1 line-clamp-2">{title}</span>
+                        <span className="font-bold text-gray-500">${earning.toFixed(2)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {conflict.labels.length > 1 && (
+                <div>
+                  <p className="text-[10px] font-bold text-gray-400 uppercase mb-1">Nhãn</p>
+                  <div className="flex flex-wrap gap-2">
+                    {conflict.labels.map(({ label, earning }) => (
+                      <button
+                        key={label}
+                        onClick={() => onResolve(conflict.assetId, { label })}
+                        className={`px-3 py-1 rounded-full text-[11px] font-medium transition-all ${conflict.resolvedLabel === label ? 'bg-violet-600 text-white shadow-md' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                      >
+                        {label} <span className="opacity-60 text-[10px]">(${earning.toFixed(2)})</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+          {titleMatches.map(match => (
+            <div key={match.title} className="bg-white rounded-xl border border-violet-100 p-3">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-[10px] font-bold text-gray-400 uppercase">Không có Post ID · trùng tiêu đề với ID {match.assetId}</span>
+                {match.merged && (
+                  <span className="text-[9px] font-black uppercase text-emerald-600 bg-emerald-50 px-1.5 py-0.5 rounded">Đã gộp</span>
+                )}
+              </div>
+              <p className="text-[11px] text-gray-700 line-clamp-2 mb-1">{match.title} <span className="font-bold text-gray-500">(${match.earning.toFixed(2)})</span></p>
+              {match.overlapDays > 0 && (
+                <p className="text-[11px] text-amber-700 mb-1">
+                  Trùng {match.overlapDays} ngày với video có Post ID (${match.overlapEarning.toFixed(2)}); khi gộp các ngày này chỉ tính một lần.
+                </p>
+              )}
+              {!match.merged && (
+                <button
+                  onClick={() => onMergeTitle(match.title)}
+                  className="mt-1 px-3 py-1 rounded-full text-[11px] font-medium bg-violet-600 text-white shadow-md hover:bg-violet-700 transition-all"
+                >
+                  Gộp vào ID {match.assetId}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
@@ -0,0 +1,64 @@
+
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { countSheetRows } from '../services/fileParserService';
+
+export interface PendingWorkbook {
+  fileName: string;
+  workbook: XLSX.WorkBook;
+}
+
+interface SheetPickerProps {
+  workbooks: PendingWorkbook[];
+  onConfirm: (selectedSheets: string[]) => void;
+  onCancel: () => void;
+}
+
+// Pre-select the sheet with the most rows, which is usually the data sheet
+const largestSheet = (workbook: XLSX.WorkBook) =>
+  workbook.SheetNames.reduce((best, name) =>
+    countSheetRows(workbook, name) > countSheetRows(workbook, best) ? name : best, workbook.SheetNames[0]);
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ workbooks, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<string[]>(() => workbooks.map(w => largestSheet(w.workbook)));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 animate-in fade-in slide-in-from-top-4">
+      <div className="mb-6">
+        <h3 className="text-lg font-bold text-gray-800">Chọn trang tính</h3>
+        <p className="text-xs text-gray-500 mt-1">Tệp của bạn có nhiều trang tính. Hãy chọn trang chứa dữ liệu cần phân tích.</p>
+      </div>
+
+      <div className="space-y-6">
+        {workbooks.map(({ fileName, workbook }, fileIndex) => (
+          <div key={fileIndex}>
+            <p className="text-sm font-bold text-indigo-600 truncate mb-2">{fileName}</p>
+            <div className="flex flex-wrap gap-2">
+              {workbook.SheetNames.map(name => (
+                <button
+                  key={name}
+                  onClick={() => setSelected(prev => prev.map((s, i) => i === fileIndex ? name : s))}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition-all ${selected[fileIndex] === name ? 'bg-indigo-600 border-indigo-600 text-white shadow-md' : 'bg-white border-gray-200 text-gray-600 hover:border-indigo-300'}`}
+                >
+                  {name} <span className={`ml-1 text-[10px] ${selected[fileIndex] === name ? 'text-indigo-100' : 'text-gray-400'}`}>({countSheetRows(workbook, name)} dòng)</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 flex justify-end gap-3">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-semibold text-gray-500 hover:bg-gray-100 transition-colors">Hủy</button>
+        <button
+          onClick={() => onConfirm(selected)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg font-semibold text-sm transition-colors"
+        >
+          Tiếp tục
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPicker;
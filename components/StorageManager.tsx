@@ -0,0 +1,167 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AnalysisResult, BackupRestoreMode } from '../types';
+import { StoredEntryInfo, deleteSources, estimateStorage, formatBytes, getStoredEntryInfo } from '../services/storageService';
+
+interface StorageManagerProps {
+  history: AnalysisResult[];
+  onDeleteEntries: (ids: string[]) => void;
+  onExportBackup: () => void;
+  onImportBackup: (file: File, mode: BackupRestoreMode) => void;
+  onClose: () => void;
+}
+
+const KEEP_OPTIONS = [5, 10, 20, 50];
+
+const StorageManager: React.FC<StorageManagerProps> = ({ history, onDeleteEntries, onExportBackup, onImportBackup, onClose }) => {
+  const [entries, setEntries] = useState<StoredEntryInfo[]>([]);
+  const [restoreMode, setRestoreMode] = useState<BackupRestoreMode>('merge');
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [keepCount, setKeepCount] = useState(10);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [info, storage] = await Promise.all([getStoredEntryInfo(), estimateStorage()]);
+      setEntries(info);
+      setEstimate(storage);
+    } catch (e) {
+      console.error("Failed to read storage usage", e);
+    }
+  }, []);
+
+  // Re-read after every history change so deleted entries disappear from the list
+  useEffect(() => {
+    refresh();
+  }, [refresh, history]);
+
+  const infoById = new Map<string, StoredEntryInfo>(entries.map(e => [e.id, e]));
+  const totalBytes = entries.reduce((acc, e) => acc + e.analysisBytes + (e.sourceBytes || 0), 0);
+
+  const dropSources = async (id: string) => {
+    await deleteSources(id);
+    refresh();
+  };
+
+  const handleBackupFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (restoreMode === 'replace' && !confirm("Toàn bộ lịch sử và cài đặt hiện tại sẽ bị thay thế, trừ các kỳ đã chốt. Tiếp tục?")) return;
+    onImportBackup(file, restoreMode);
+  };
+
+  const pruneOlder = () => {
+    const toDelete = history.slice(keepCount).map(h => h.id);
+    if (toDelete.length === 0) return;
+    if (!confirm(`Xóa ${toDelete.length} phân tích cũ nhất?`)) return;
+    onDeleteEntries(toDelete);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 mb-6 animate-in fade-in slide-in-from-top-4">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Lưu trữ & sao lưu</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Lịch sử: <span className="font-bold text-gray-700">{formatBytes(totalBytes)}</span>
+            {estimate && <> · Trình duyệt: {formatBytes(estimate.usage)} / {formatBytes(estimate.quota)}</>}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors text-gray-500">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      {estimate && estimate.quota > 0 && (
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-6">
+          <div className="h-full bg-indigo-500" style={{ width: `${Math.min((estimate.usage / estimate.quota) * 100, 100)}%` }}></div>
+        </div>
+      )}
+
+      <div className="bg-gray-50 rounded-xl p-4 mb-6">
+        <p className="text-xs font-bold text-gray-700 mb-1">Sao lưu không gian làm việc</p>
+        <p className="text-[10px] text-gray-400 mb-3">Gồm toàn bộ lịch sử phân tích, tỷ giá, % bonus, quy tắc bonus, mẫu ghép cột, danh sách nhân sự, ngưỡng và các mức thu nhập cùng bộ lọc hiện tại. Dữ liệu gốc không được kèm theo.</p>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={onExportBackup}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg font-semibold text-xs transition-colors"
+          >
+            Tải tệp sao lưu
+          </button>
+          <div className="flex bg-white border border-gray-200 p-0.5 rounded-lg">
+            {(['merge', 'replace'] as BackupRestoreMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setRestoreMode(mode)}
+                className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${restoreMode === mode ? 'bg-indigo-50 text-indigo-600' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                {mode === 'merge' ? 'Gộp vào hiện tại' : 'Thay thế toàn bộ'}
+              </button>
+            ))}
+          </div>
+          <label className="text-xs font-bold text-indigo-600 hover:text-indigo-800 cursor-pointer">
+            Khôi phục từ tệp...
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleBackupFile} />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-xs font-semibold text-gray-500">Giữ lại</span>
+        <select
+          value={keepCount}
+          onChange={(e) => setKeepCount(Number(e.target.value))}
+          className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs font-semibold text-gray-700 outline-none"
+        >
+          {KEEP_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+        <span className="text-xs font-semibold text-gray-500">mục mới nhất</span>
+        <button
+          onClick={pruneOlder}
+          disabled={history.length <= keepCount}
+          className="text-xs font-bold text-rose-500 hover:text-rose-700 disabled:text-gray-300"
+        >
+          Dọn dẹp
+        </button>
+      </div>
+
+      <div className="max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+        <table className="w-full text-left">
+          <thead className="sticky top-0 bg-white shadow-sm z-10">
+            <tr className="text-xs font-bold text-gray-400 uppercase border-b">
+              <th className="py-3 px-2">Tệp</th>
+              <th className="py-3 px-2 text-right">Kết quả</th>
+              <th className="py-3 px-2 text-right">Dữ liệu gốc</th>
+              <th className="py-3 px-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {history.map(item => {
+              const info = infoById.get(item.id);
+              return (
+                <tr key={item.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="py-3 px-2">
+                    <p className="text-xs font-bold text-gray-700 truncate max-w-[280px]" title={item.fileName}>{item.fileName}</p>
+                    <p className="text-[10px] text-gray-400">{new Date(item.timestamp).toLocaleString('vi-VN')}</p>
+                  </td>
+                  <td className="py-3 px-2 text-right text-xs text-gray-600">{info ? formatBytes(info.analysisBytes) : '—'}</td>
+                  <td className="py-3 px-2 text-right text-xs text-gray-600">
+                    {info?.sourceBytes != null ? formatBytes(info.sourceBytes) : <span className="italic text-gray-300">Không lưu</span>}
+                  </td>
+                  <td className="py-3 px-2 text-right whitespace-nowrap">
+                    {info?.sourceBytes != null && (
+                      <button onClick={() => dropSources(item.id)} className="text-[10px] font-bold text-amber-500 hover:text-amber-700 mr-3">Xóa dữ liệu gốc</button>
+                    )}
+                    <button onClick={() => onDeleteEntries([item.id])} className="text-[10px] font-bold text-rose-500 hover:text-rose-700">Xóa</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StorageManager;
@@ -0,0 +1,179 @@
+
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { AIProviderConfig, InsightFailure, TopicMethod, VideoEarning } from '../types';
+import { OTHER_TOPIC_ID, clusterTopics, suggestTopicCount, topicName, topicText } from '../services/topicService';
+import { fetchEmbeddings } from '../services/openAICompatibleService';
+import { INSIGHT_ERROR_MESSAGES } from '../services/insightService';
+import { UNLABELED_LABEL } from '../services/analyticsService';
+
+interface TopicClustersProps {
+  videos: VideoEarning[];
+  aiConfig: AIProviderConfig;
+}
+
+const TOPIC_COUNT_OPTIONS = [3, 4, 5, 6, 8, 10, 12, 15, 20];
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+const TITLES_PER_TOPIC = 3;
+
+const TopicClusters: React.FC<TopicClustersProps> = ({ videos, aiConfig }) => {
+  const [topicCount, setTopicCount] = useState<number | null>(null); // null = suggested
+  const [method, setMethod] = useState<TopicMethod>('tfidf');
+  const [embeddingModel, setEmbeddingModel] = useState(DEFAULT_EMBEDDING_MODEL);
+  // Embeddings only apply to the exact video list they were made for
+  const [embedded, setEmbedded] = useState<{ videos: VideoEarning[]; vectors: number[][] } | null>(null);
+  const [embedding, setEmbedding] = useState(false);
+  const [embeddingError, setEmbeddingError] = useState<InsightFailure | null>(null);
+
+  const count = topicCount ?? suggestTopicCount(videos.length);
+  const vectors = method === 'embedding' && embedded?.videos === videos ? embedded.vectors : undefined;
+  const clusters = useMemo(() => clusterTopics(videos, count, vectors), [videos, count, vectors]);
+
+  const canEmbed = aiConfig.provider === 'openai' && !!aiConfig.baseUrl;
+  const unlabeledTotal = videos.filter(v => v.label === UNLABELED_LABEL).length;
+  const chartData = clusters.map(c => ({ name: topicName(c.keywords), total: Number(c.totalEarning.toFixed(2)) }));
+
+  const runEmbeddings = async () => {
+    setEmbedding(true);
+    setEmbeddingError(null);
+    const target = videos;
+    const result = await fetchEmbeddings(target.map(topicText), aiConfig, embeddingModel.trim());
+    if (result.ok === false) setEmbeddingError(result);
+    else setEmbedded({ videos: target, vectors: result.vectors });
+    setEmbedding(false);
+  };
+
+  if (videos.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-2">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Chủ đề nội dung</h3>
+          <p className="text-[10px] text-gray-400 font-medium mt-0.5">
+            {clusters.length} nhóm tự động từ tiêu đề và mô tả của {videos.length} video, không dựa vào nhãn
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={topicCount ?? ''}
+            onChange={(e) => setTopicCount(e.target.value ? Number(e.target.value) : null)}
+            className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-[11px] font-semibold text-gray-600 outline-none"
+          >
+            <option value="">Tự động ({suggestTopicCount(videos.length)} nhóm)</option>
+            {TOPIC_COUNT_OPTIONS.map(n => <option key={n} value={n}>{n} nhóm</option>)}
+          </select>
+          <div className="flex bg-gray-100 rounded-lg p-0.5">
+            {([['tfidf', 'Từ khóa (offline)'], ['embedding', 'Embedding']] as [TopicMethod, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setMethod(value)}
+                className={`px-3 py-1 rounded-md text-[11px] font-bold transition-all ${method === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {method === 'embedding' && (
+        <div className="bg-gray-50 border border-gray-100 rounded-xl p-4 mb-6 text-xs">
+          {canEmbed ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-gray-500">Mô hình embedding tại <span className="font-mono">{aiConfig.baseUrl}</span>:</span>
+              <input
+                type="text"
+                value={embeddingModel}
+                onChange={(e) => setEmbeddingModel(e.target.value)}
+                className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+              />
+              <button
+                onClick={runEmbeddings}
+                disabled={embedding || !embeddingModel.trim()}
+                className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 text-white px-3 py-1 rounded-lg font-semibold transition-colors"
+              >
+                {embedding ? 'Đang tạo...' : 'Tạo embedding'}
+              </button>
+              {!vectors && !embedding && <span className="text-gray-400 italic">Đang hiển thị nhóm theo từ khóa cho đến khi có embedding.</span>}
+            </div>
+          ) : (
+            <p className="text-gray-500">Cần chọn nhà cung cấp OpenAI-compatible (ví dụ Ollama) trong phần Trợ lý AI để tạo embedding trên máy. Đang hiển thị nhóm theo từ khóa.</p>
+          )}
+          {embeddingError && (
+            <p className="mt-2 text-rose-600">
+              <span className="font-bold">{INSIGHT_ERROR_MESSAGES[embeddingError.code]}</span>
+              {embeddingError.detail && <span className="opacity-80"> {embeddingError.detail}</span>}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="w-full" style={{ height: Math.max(chartData.length * 32, 120) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+            <XAxis type="number" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 10}} />
+            <YAxis type="category" dataKey="name" width={180} axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 10}} />
+            <Tooltip
+              formatter={(value) => `$${Number(value).toFixed(2)}`}
+              cursor={{fill: '#f8fafc'}}
+              contentStyle={{borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'}}
+            />
+            <Bar dataKey="total" name="Tổng thu nhập" fill="#0ea5e9" radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {unlabeledTotal > 0 && (
+        <p className="mt-4 text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+          {unlabeledTotal} video chưa gắn nhãn đã được xếp vào {clusters.filter(c => c.unlabeledCount > 0).length} chủ đề bên dưới.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 mt-6">
+        {clusters.map(cluster => (
+          <div key={cluster.id} className="border border-gray-100 rounded-xl p-4">
+            <div className="flex flex-wrap gap-1 mb-3">
+              {cluster.id === OTHER_TOPIC_ID ? (
+                <span className="bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded text-[11px] font-bold">Không đủ từ khóa để xếp nhóm</span>
+              ) : cluster.keywords.map(k => (
+                <span key={k} className="bg-sky-50 text-sky-700 px-1.5 py-0.5 rounded text-[11px] font-bold">{k}</span>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center mb-3">
+              <div>
+                <p className="text-[10px] text-gray-400 uppercase font-bold">Video</p>
+                <p className="text-sm font-bold text-gray-700">{cluster.videoCount}</p>
+              </div>
+              <div>
+                <p className="text-[10px] text-gray-400 uppercase font-bold">Tổng</p>
+                <p className="text-sm font-bold text-indigo-600">${cluster.totalEarning.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] text-gray-400 uppercase font-bold">TB / video</p>
+                <p className="text-sm font-bold text-gray-700">${cluster.averageEarning.toFixed(2)}</p>
+              </div>
+            </div>
+            <p className="text-[11px] text-gray-500 mb-2 truncate" title={cluster.labels.map(l => `${l.label} (${l.videoCount})`).join(', ')}>
+              Nhãn: {cluster.labels.slice(0, 3).map(l => `${l.label} (${l.videoCount})`).join(', ')}{cluster.labels.length > 3 ? ', ...' : ''}
+            </p>
+            {cluster.unlabeledCount > 0 && (
+              <p className="text-[11px] font-bold text-amber-600 mb-2">{cluster.unlabeledCount} video chưa gắn nhãn</p>
+            )}
+            <ul className="space-y-1">
+              {cluster.videos.slice(0, TITLES_PER_TOPIC).map((v, i) => (
+                <li key={`${v.assetId || v.title}-${i}`} className="flex justify-between gap-2 text-[11px]">
+                  <span className="text-gray-600 truncate" title={v.title}>{v.title}</span>
+                  <span className="shrink-0 text-gray-400">${v.totalEarning.toFixed(2)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TopicClusters;
@@ -0,0 +1,105 @@
+
+import React, { useState, useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LabelSummary, TrendGranularity, VideoEarning } from '../types';
+import { buildTrendSeries, formatPeriod } from '../services/timeSeriesService';
+
+interface TrendChartProps {
+  videos: VideoEarning[];
+  labelSummaries: LabelSummary[];
+  colors: string[];
+}
+
+// Beyond this many labels the stacked areas become unreadable
+const MAX_SERIES = 6;
+
+const GRANULARITIES: { value: TrendGranularity; label: string }[] = [
+  { value: 'day', label: 'Ngày' },
+  { value: 'week', label: 'Tuần' },
+  { value: 'month', label: 'Tháng' }
+];
+
+const TrendChart: React.FC<TrendChartProps> = ({ videos, labelSummaries, colors }) => {
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+
+  const series = useMemo(() => buildTrendSeries(videos, granularity), [videos, granularity]);
+  const topLabels = useMemo(() => labelSummaries.slice(0, MAX_SERIES).map(l => l.label), [labelSummaries]);
+  const hasOtherLabels = labelSummaries.length > MAX_SERIES;
+
+  const chartData = useMemo(() => series.map(point => {
+    const row: Record<string, number | string> = { period: formatPeriod(point.period, granularity) };
+    let shown = 0;
+    topLabels.forEach((label, i) => {
+      const value = point.labels[label] || 0;
+      row[`s${i}`] = value;
+      shown += value;
+    });
+    if (hasOtherLabels) row.other = point.total - shown;
+    return row;
+  }), [series, topLabels, hasOtherLabels, granularity]);
+
+  const peak = useMemo(() => series.reduce<typeof series[number] | null>(
+    (best, point) => (!best || point.total > best.total ? point : best), null
+  ), [series]);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-2">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Xu hướng Doanh thu theo thời gian</h3>
+          {peak && (
+            <p className="text-[10px] text-gray-400 font-medium mt-0.5">
+              Cao nhất: <span className="font-bold text-indigo-600">{formatPeriod(peak.period, granularity)}</span> (${peak.total.toFixed(2)})
+            </p>
+          )}
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-0.5">
+          {GRANULARITIES.map(g => (
+            <button
+              key={g.value}
+              onClick={() => setGranularity(g.value)}
+              className={`px-3 py-1 rounded-md text-[11px] font-bold transition-all ${granularity === g.value ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {chartData.length > 0 ? (
+        <div className="h-72 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="period" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 10}} />
+              <YAxis axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+              <Tooltip
+                formatter={(value) => `$${Number(value).toFixed(2)}`}
+                contentStyle={{borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'}}
+              />
+              <Legend wrapperStyle={{fontSize: 11}} />
+              {topLabels.map((label, i) => (
+                <Area
+                  key={label}
+                  type="monotone"
+                  dataKey={`s${i}`}
+                  name={label}
+                  stackId="labels"
+                  stroke={colors[i % colors.length]}
+                  fill={colors[i % colors.length]}
+                  fillOpacity={0.25}
+                />
+              ))}
+              {hasOtherLabels && (
+                <Area type="monotone" dataKey="other" name="Khác" stackId="labels" stroke="#94a3b8" fill="#94a3b8" fillOpacity={0.2} />
+              )}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-72 flex items-center justify-center text-gray-400 text-sm italic">Tệp không có cột Ngày hợp lệ</div>
+      )}
+    </div>
+  );
+};
+
+export default TrendChart;
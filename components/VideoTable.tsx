@@ -0,0 +1,221 @@
+
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { EarningTier, VideoEarning, VideoQuery, VideoSortKey, VideoTableColumn } from '../types';
+import { firstDateKey, queryVideos } from '../services/analyticsService';
+import { findTier } from '../services/tierService';
+
+interface VideoTableProps {
+  videos: VideoEarning[];
+  showSources: boolean;
+  lowEarningThreshold: number;
+  tiers: EarningTier[];
+}
+
+const COLUMNS: { key: VideoTableColumn; label: string }[] = [
+  { key: 'label', label: 'Nhãn' },
+  { key: 'date', label: 'Ngày' },
+  { key: 'hashtags', label: 'Hashtag' },
+  { key: 'assetId', label: 'Post ID' }
+];
+
+const COLUMNS_STORAGE_KEY = 'earning_analyst_video_columns';
+
+// Rows have a fixed height so only the visible slice needs to be rendered
+const ROW_HEIGHT = 56;
+const VIEWPORT_HEIGHT = 500;
+const OVERSCAN = 8;
+
+const inputClass = "bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-indigo-500";
+
+const toNumber = (value: string) => value === '' ? undefined : Number(value);
+
+const VideoTable: React.FC<VideoTableProps> = ({ videos, showSources, lowEarningThreshold, tiers }) => {
+  const [query, setQuery] = useState<VideoQuery>({ search: '', sortKey: 'totalEarning', sortDir: 'desc' });
+  const [showFilters, setShowFilters] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState<VideoTableColumn[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) || '["assetId","hashtags"]');
+    } catch (e) {
+      console.error("Failed to parse video table columns", e);
+      return ['assetId', 'hashtags'];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columns));
+  }, [columns]);
+
+  const rows = useMemo(() => queryVideos(videos, query), [videos, query]);
+
+  const updateQuery = (patch: Partial<VideoQuery>) => {
+    setQuery(prev => ({ ...prev, ...patch }));
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  const toggleSort = (sortKey: VideoSortKey) => {
+    updateQuery(query.sortKey === sortKey
+      ? { sortDir: query.sortDir === 'asc' ? 'desc' : 'asc' }
+      : { sortKey, sortDir: sortKey === 'totalEarning' ? 'desc' : 'asc' });
+  };
+
+  const toggleColumn = (column: VideoTableColumn) => {
+    setColumns(prev => prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]);
+  };
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(start, end);
+  const hasFilters = query.search || query.dateFrom || query.dateTo || query.minEarning !== undefined || query.maxEarning !== undefined;
+
+  const sortHeader = (key: VideoSortKey, label: string, className = '') => (
+    <th className={`py-3 px-2 cursor-pointer select-none hover:text-indigo-600 ${className}`} onClick={() => toggleSort(key)}>
+      {label}{query.sortKey === key && (query.sortDir === 'asc' ? ' ▲' : ' ▼')}
+    </th>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 flex flex-col h-full">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-gray-800">Chi tiết Video</h3>
+        <span className="text-xs text-gray-400">{rows.length !== videos.length ? `${rows.length}/` : ''}{videos.length} video</span>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            placeholder="Tìm theo tiêu đề hoặc Post ID..."
+            value={query.search}
+            onChange={(e) => updateQuery({ search: e.target.value })}
+            className={`${inputClass} flex-1`}
+          />
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`text-xs font-bold px-2 py-1 rounded-lg transition-colors ${showFilters || hasFilters ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`}
+          >
+            Lọc & cột
+          </button>
+        </div>
+        {showFilters && (
+          <div className="bg-gray-50 rounded-xl p-3 space-y-2 animate-in slide-in-from-top-2">
+            <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-500 font-semibold">
+              <span>Ngày</span>
+              <input type="date" value={query.dateFrom || ''} onChange={(e) => updateQuery({ dateFrom: e.target.value || undefined })} className={inputClass} />
+              <span>→</span>
+              <input type="date" value={query.dateTo || ''} onChange={(e) => updateQuery({ dateTo: e.target.value || undefined })} className={inputClass} />
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-500 font-semibold">
+              <span>Thu nhập $</span>
+              <input type="number" placeholder="Từ" value={query.minEarning ?? ''} onChange={(e) => updateQuery({ minEarning: toNumber(e.target.value) })} className={`${inputClass} w-24`} />
+              <span>→</span>
+              <input type="number" placeholder="Đến" value={query.maxEarning ?? ''} onChange={(e) => updateQuery({ maxEarning: toNumber(e.target.value) })} className={`${inputClass} w-24`} />
+              {hasFilters && (
+                <button
+                  onClick={() => updateQuery({ search: '', dateFrom: undefined, dateTo: undefined, minEarning: undefined, maxEarning: undefined })}
+                  className="text-[10px] font-bold text-rose-500 hover:text-rose-700 ml-auto"
+                >
+                  Xóa lọc
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-[10px] text-gray-400 font-medium mr-1">Cột hiển thị:</span>
+              {COLUMNS.map(c => (
+                <button
+                  key={c.key}
+                  onClick={() => toggleColumn(c.key)}
+                  className={`px-2 py-0.5 rounded-full text-[10px] font-medium transition-all ${columns.includes(c.key) ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-200 text-gray-500 hover:bg-gray-100'}`}
+                >
+                  {c.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {rows.length > 0 ? (
+        <div
+          ref={viewportRef}
+          className="overflow-auto pr-2 custom-scrollbar"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-white shadow-sm z-10">
+              <tr className="text-xs font-bold text-gray-400 uppercase border-b whitespace-nowrap">
+                {sortHeader('title', 'Tiêu đề')}
+                {columns.includes('label') && sortHeader('label', 'Nhãn')}
+                {columns.includes('date') && sortHeader('date', 'Ngày')}
+                {columns.includes('assetId') && sortHeader('assetId', 'Post ID')}
+                {columns.includes('hashtags') && <th className="py-3 px-2">Hashtag</th>}
+                {sortHeader('totalEarning', 'Thu nhập ($)', 'text-right')}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+              {visibleRows.map((item, i) => (
+                <tr key={start + i} style={{ height: ROW_HEIGHT }} className={`hover:bg-gray-50 transition-colors ${item.totalEarning < lowEarningThreshold ? 'bg-amber-50/30' : ''}`}>
+                  <td className="px-2 max-w-[260px]">
+                    <div className="text-[11px] font-medium text-gray-700 leading-normal truncate" title={item.title}>{item.title}</div>
+                    <div className="flex items-center gap-1 overflow-hidden whitespace-nowrap">
+                      {showSources && item.sourceFiles?.map((source, idx) => (
+                        <span key={`src-${idx}`} className="text-[8px] bg-indigo-50 text-indigo-400 px-1 rounded font-bold truncate max-w-[120px]" title={source}>
+                          {source}
+                        </span>
+                      ))}
+                      {item.totalEarning < lowEarningThreshold && (
+                        <span title={`Dưới $${lowEarningThreshold}`} className="inline-block text-[8px] font-black uppercase tracking-tighter text-amber-600 border border-amber-200 bg-amber-50 px-1 rounded">
+                          Low
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  {columns.includes('label') && <td className="px-2 text-[11px] text-gray-600 whitespace-nowrap">{item.label}</td>}
+                  {columns.includes('date') && <td className="px-2 text-[11px] text-gray-500 whitespace-nowrap">{firstDateKey(item) || item.date || '—'}</td>}
+                  {columns.includes('assetId') && (
+                    <td className="px-2 whitespace-nowrap">
+                      {item.assetId ? (
+                        <a
+                          href={`https://www.facebook.com/reel/${item.assetId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-[9px] text-indigo-500 hover:text-indigo-700 font-bold hover:underline"
+                        >
+                          {item.assetId}
+                        </a>
+                      ) : <span className="text-[9px] text-gray-300">—</span>}
+                    </td>
+                  )}
+                  {columns.includes('hashtags') && (
+                    <td className="px-2 max-w-[160px]">
+                      <div className="flex items-center gap-1 overflow-hidden whitespace-nowrap">
+                        {item.hashtags.map((tag, idx) => (
+                          <span key={idx} className="text-[8px] bg-gray-100 text-gray-400 px-1 rounded uppercase font-bold">{tag}</span>
+                        ))}
+                      </div>
+                    </td>
+                  )}
+                  <td className="px-2 text-right">
+                    <span className={`font-bold ${item.totalEarning < lowEarningThreshold ? 'text-amber-600' : 'text-gray-900'}`}>
+                      ${item.totalEarning.toFixed(2)}
+                    </span>
+                    <div className="text-[9px] text-gray-400 font-medium whitespace-nowrap">{findTier(item.totalEarning, tiers)?.name}</div>
+                  </td>
+                </tr>
+              ))}
+              {end < rows.length && <tr style={{ height: (rows.length - end) * ROW_HEIGHT }} />}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="py-12 text-center text-gray-400 italic">Trống</div>
+      )}
+    </div>
+  );
+};
+
+export default VideoTable;
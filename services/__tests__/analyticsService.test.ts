@@ -0,0 +1,163 @@
+import { readFileSync } from 'fs';
+import Papa from 'papaparse';
+import { describe, expect, it } from 'vitest';
+import { RawCSVRow } from '../../types';
+import { analyzeRows, applyFilters, mergeTitleMatch } from '../analyticsService';
+import { detectMapping } from '../columnMappingService';
+import { detectParseSettings } from '../localeService';
+import { DEFAULT_EARNING_TIERS, summarizeTiers } from '../tierService';
+import { applyTiers, computePayouts } from '../bonusService';
+import { formatAmount, rateFor } from '../currencyService';
+
+// Parses a fixture the way the import flow does: detected mapping and locale
+const loadFixture = (fileName: string) => {
+  const text = readFileSync(new URL(`./fixtures/${fileName}`, import.meta.url), 'utf8');
+  const { data, meta } = Papa.parse<RawCSVRow>(text, { header: true, skipEmptyLines: true });
+  const mapping = detectMapping(meta.fields || []);
+  return { fileName, mapping, parseSettings: detectParseSettings(data, mapping), rows: data };
+};
+
+const analyze = (...fileNames: string[]) =>
+  analyzeRows(fileNames.map(loadFixture), { id: 'fixture', timestamp: 0 });
+
+const earningOf = (result: ReturnType<typeof analyze>, title: string) =>
+  result.videoEarnings.find(v => v.title === title)?.totalEarning;
+
+describe('analyzeRows', () => {
+  it('reads the English export with comma thousands and mm/dd dates', () => {
+    const file = loadFixture('en_export.csv');
+    expect(file.parseSettings).toEqual({ numberLocale: 'en', dateFormat: 'mdy' });
+
+    const result = analyze('en_export.csv');
+    expect(result.id).toBe('fixture');
+    expect(result.videoEarnings).toHaveLength(4);
+    expect(result.grandTotal).toBeCloseTo(3250.25, 2);
+    expect(earningOf(result, 'Cooking pho at home')).toBeCloseTo(1249.75, 2);
+    expect(earningOf(result, 'Phone review')).toBeCloseTo(2000, 2);
+    expect(result.parseWarningCount).toBe(0);
+    expect(result.missingColumns).toEqual([]);
+  });
+
+  it('reads the Vietnamese export with dot thousands and dd/mm dates', () => {
+    const file = loadFixture('vi_export.csv');
+    expect(file.parseSettings).toEqual({ numberLocale: 'vi', dateFormat: 'dmy' });
+
+    const result = analyze('vi_export.csv');
+    expect(result.grandTotal).toBeCloseTo(1245.5, 2);
+    expect(earningOf(result, 'Nấu phở bò')).toBeCloseTo(1244.75, 2);
+    expect(result.videoEarnings.find(v => v.title === 'Nấu phở bò')?.dailyEarnings).toEqual([
+      { date: '2024-03-15', earning: 1234.5 },
+      { date: '2024-03-16', earning: 10.25 }
+    ]);
+    expect(result.labelSummaries.map(l => l.label)).toEqual(['Ẩm thực', 'Thể hình']);
+  });
+
+  it('counts a repeated Post ID and day only once', () => {
+    expect(analyze('en_export.csv').duplicateRowCount).toBe(1);
+    const vi = analyze('vi_export.csv');
+    expect(vi.duplicateRowCount).toBe(1);
+    expect(earningOf(vi, 'Tập gym')).toBeCloseTo(0.75, 2);
+  });
+
+  it('recognises the same Post ID and day across differently formatted dates', () => {
+    const result = analyze('en_export.csv', 'en_overlap_iso.csv');
+    expect(result.duplicateRowCount).toBe(2);
+    expect(earningOf(result, 'Cooking pho at home')).toBeCloseTo(1252.75, 2);
+  });
+
+  it('keeps rows without an ID apart and offers the video with the same title for merging', () => {
+    const result = analyze('en_export.csv', 'title_only.csv');
+    expect(result.videoEarnings.filter(v => v.title === 'Cooking pho at home').map(v => [v.assetId, v.totalEarning])).toEqual([
+      ['101', 1249.75],
+      [undefined, 7.75]
+    ]);
+    expect(earningOf(result, 'Brand new video')).toBeCloseTo(5, 2);
+    expect(result.titleMatches).toEqual([
+      { title: 'Cooking pho at home', assetId: '101', earning: 7.75, overlapDays: 0, overlapEarning: 0 }
+    ]);
+    expect(result.grandTotal).toBeCloseTo(3263, 2);
+
+    const merged = mergeTitleMatch(result, 'Cooking pho at home');
+    expect(earningOf(merged, 'Cooking pho at home')).toBeCloseTo(1257.5, 2);
+    expect(merged.videoEarnings).toHaveLength(5);
+    expect(merged.grandTotal).toBeCloseTo(3263, 2);
+    expect(merged.titleMatches![0].merged).toBe(true);
+  });
+
+  it('does not count a day twice when an export without IDs is merged into one with IDs', () => {
+    const result = analyze('en_overlap_iso.csv', 'title_only.csv');
+    expect(result.titleMatches![0]).toMatchObject({ overlapDays: 1, overlapEarning: 3 });
+    expect(result.grandTotal).toBeCloseTo(31, 2);
+
+    const merged = mergeTitleMatch(result, 'Cooking pho at home');
+    expect(merged.duplicateRowCount).toBe(1);
+    expect(earningOf(merged, 'Cooking pho at home')).toBeCloseTo(23, 2);
+    expect(merged.grandTotal).toBeCloseTo(28, 2);
+  });
+
+  it('puts videos without a label under "Không có nhãn" and collects hashtags', () => {
+    const result = analyze('en_export.csv');
+    expect(result.videoEarnings.find(v => v.title === 'Untitled draft')?.label).toBe('Không có nhãn');
+    expect(result.allHashtags).toEqual(['#food', '#gym', '#pho']);
+  });
+
+  it('uses the configured low-earning threshold', () => {
+    const file = loadFixture('en_export.csv');
+    expect(analyzeRows([file]).lowEarningCount).toBe(2);
+    expect(analyzeRows([file], { lowEarningThreshold: 0.2 }).lowEarningCount).toBe(1);
+  });
+});
+
+describe('applyFilters', () => {
+  const result = analyze('en_export.csv');
+  const allLabels = result.labelSummaries.map(l => l.label);
+
+  it('keeps only the selected labels and recomputes totals', () => {
+    const filtered = applyFilters(result, { selectedLabels: ['Food', 'Fitness'], selectedHashtags: [], hideLowEarnings: false, hideLowEarningLabels: false });
+    expect(filtered.videoEarnings).toHaveLength(2);
+    expect(filtered.grandTotal).toBeCloseTo(1250.15, 2);
+  });
+
+  it('filters by hashtag and hides low earners', () => {
+    const byTag = applyFilters(result, { selectedLabels: allLabels, selectedHashtags: ['#gym'], hideLowEarnings: false, hideLowEarningLabels: false });
+    expect(byTag.videoEarnings.map(v => v.title)).toEqual(['Gym for beginners']);
+
+    const noLow = applyFilters(result, { selectedLabels: allLabels, selectedHashtags: [], hideLowEarnings: true, hideLowEarningLabels: false });
+    expect(noLow.videoEarnings).toHaveLength(2);
+    expect(noLow.lowEarningCount).toBe(0);
+  });
+});
+
+describe('tiers', () => {
+  const result = analyze('en_export.csv');
+
+  it('places each video in its earning tier', () => {
+    expect(summarizeTiers(result.videoEarnings, DEFAULT_EARNING_TIERS).map(t => [t.tier.name, t.videoCount])).toEqual([
+      ['Thấp', 2],
+      ['Trung bình', 0],
+      ['Tốt', 0],
+      ['Xuất sắc', 2]
+    ]);
+  });
+
+  it('applies tiered bonus rates marginally', () => {
+    expect(applyTiers(1249.75, [{ upTo: 500, rate: 5 }, { upTo: null, rate: 8 }])).toBeCloseTo(84.98, 2);
+  });
+});
+
+describe('currency', () => {
+  const result = analyze('en_export.csv');
+  const food = computePayouts(result.labelSummaries, result.videoEarnings, [], 10).find(p => p.label === 'Food')!;
+
+  it('converts the bonus with the rate of the payout currency', () => {
+    expect(food.bonus).toBeCloseTo(124.975, 3);
+    expect(food.bonus * rateFor('VND', 25000, {})).toBeCloseTo(3124375, 0);
+    expect(food.bonus * rateFor('THB', 25000, { THB: 35 })).toBeCloseTo(4374.125, 3);
+    expect(rateFor('USD', 25000, { THB: 35 })).toBe(1);
+  });
+
+  it('rounds to the digits of each currency', () => {
+    expect(formatAmount(3124375.4, 'VND')).toBe('3.124.375');
+    expect(formatAmount(124.975, 'USD')).toBe('124.98');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { RawCSVRow } from '../../types';
+import { analyzeRows, mergeTitleMatch, resolveConflict } from '../analyticsService';
+import { recordRecompute } from '../auditService';
+import { createChatMessage } from '../chatService';
+
+const source = {
+  fileName: 'export.csv',
+  mapping: { title: 'Title', label: 'Custom labels', earnings: 'Earnings', date: 'Date', assetId: 'Post ID' },
+  parseSettings: { numberLocale: 'en' as const, dateFormat: 'iso' as const }
+};
+
+const analyze = (rows: RawCSVRow[]) => analyzeRows([{ ...source, rows }], { id: 'a1', timestamp: 0 });
+
+const rows: RawCSVRow[] = [
+  { Title: 'Pho at home', 'Custom labels': 'Food', Earnings: '5', Date: '2024-03-05', 'Post ID': '101' },
+  { Title: 'Gym basics', 'Custom labels': 'Fitness', Earnings: '2', Date: '2024-03-05', 'Post ID': '102' }
+];
+
+describe('recordRecompute', () => {
+  it('keeps the chat and payout currency, drops the stale AI insight and notes both in the audit log', () => {
+    const previous = {
+      ...analyze(rows),
+      chat: [createChatMessage('user', 'Nhãn nào tốt nhất?')],
+      aiInsight: 'Phân tích cũ',
+      payoutCurrency: 'THB' as const
+    };
+    const next = analyze([...rows, { Title: 'New video', 'Custom labels': 'Food', Earnings: '1', Date: '2024-03-06', 'Post ID': '103' }]);
+
+    const result = recordRecompute(previous, next);
+    expect(result.chat).toEqual(previous.chat);
+    expect(result.aiInsight).toBeNull();
+    expect(result.payoutCurrency).toBe('THB');
+    expect(result.grandTotal).toBe(8);
+    const entry = result.auditLog!.at(-1)!;
+    expect(entry.action).toBe('recompute');
+    expect(entry.note).toContain('hội thoại (1 tin nhắn)');
+    expect(entry.note).toContain('tiền tệ THB');
+    expect(entry.note).toContain('Bỏ phân tích AI cũ');
+  });
+
+  it('adds no note when there is nothing to carry over', () => {
+    const result = recordRecompute(analyze(rows), analyze(rows));
+    expect(result.auditLog!.at(-1)!.note).toBeUndefined();
+  });
+
+  describe('manual conflict resolutions', () => {
+    // Post 101 shows up under two titles, so it has a conflict to resolve
+    const conflicting = [...rows, { Title: 'Pho at home (re-upload)', 'Custom labels': 'Food', Earnings: '1', Date: '2024-03-06', 'Post ID': '101' }];
+    const resolved = () => {
+      const data = analyze(conflicting);
+      return resolveConflict(data, '101', { title: 'Pho at home (re-upload)' });
+    };
+
+    it('re-applies them when the recompute produces the same conflict', () => {
+      const result = recordRecompute(resolved(), analyze(conflicting));
+      expect(result.videoEarnings.find(v => v.assetId === '101')?.title).toBe('Pho at home (re-upload)');
+      expect(result.conflicts?.find(c => c.assetId === '101')?.manuallyResolved).toBe(true);
+      expect(result.auditLog!.at(-1)!.changes).toContainEqual({ field: 'manualResolutions', oldValue: 1, newValue: 1 });
+    });
+
+    it('drops them and says so when the variants changed', () => {
+      const changed = [...conflicting, { Title: 'Pho v3', 'Custom labels': 'Food', Earnings: '1', Date: '2024-03-07', 'Post ID': '101' }];
+      const result = recordRecompute(resolved(), analyze(changed));
+      expect(result.conflicts?.find(c => c.assetId === '101')?.manuallyResolved).toBeUndefined();
+      const entry = result.auditLog!.at(-1)!;
+      expect(entry.changes).toContainEqual({ field: 'manualResolutions', oldValue: 1, newValue: 0 });
+      expect(entry.note).toContain('Post ID 101');
+    });
+
+    it('re-applies a title merge when the recompute offers the same match', () => {
+      const withTitleOnly = [...rows, { Title: 'Pho at home', 'Custom labels': 'Food', Earnings: '1', Date: '2024-03-06' }];
+      const merged = mergeTitleMatch(analyze(withTitleOnly), 'Pho at home');
+      const result = recordRecompute(merged, analyze(withTitleOnly));
+      expect(result.videoEarnings.filter(v => v.title === 'Pho at home')).toHaveLength(1);
+      expect(result.titleMatches?.[0].merged).toBe(true);
+      expect(result.auditLog!.at(-1)!.changes).toContainEqual({ field: 'manualResolutions', oldValue: 1, newValue: 1 });
+    });
+  });
+});
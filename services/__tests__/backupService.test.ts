@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, PayoutLock } from '../../types';
+import { BACKUP_VERSION, BackupFormatError, parseBackup, restoreHistory } from '../backupService';
+
+const analysis = {
+  id: 'a1',
+  timestamp: 1,
+  grandTotal: 2,
+  videoEarnings: [{ title: 'Video', label: 'Food', totalEarning: 2 }],
+  labelSummaries: [{ label: 'Food', totalEarning: 2, videoCount: 1 }]
+};
+
+describe('parseBackup', () => {
+  it('upgrades a bare history array from older builds', () => {
+    const backup = parseBackup(JSON.stringify([analysis]));
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.history[0].videoEarnings[0].hashtags).toEqual([]);
+    expect(backup.settings.bonusPercentage).toBe(5);
+  });
+
+  it.each([0.5, -1, '1', null])('rejects version %s with a BackupFormatError', version => {
+    expect(() => parseBackup(JSON.stringify({ version, history: [] }))).toThrow(BackupFormatError);
+  });
+
+  it('rejects backups from a newer version', () => {
+    expect(() => parseBackup(JSON.stringify({ version: BACKUP_VERSION + 1, history: [] }))).toThrow(BackupFormatError);
+  });
+
+  it('rejects malformed analyses and videos', () => {
+    expect(() => parseBackup(JSON.stringify({ version: 1, history: [{ id: 1 }] }))).toThrow(BackupFormatError);
+    expect(() => parseBackup(JSON.stringify({ version: 1, history: [{ ...analysis, videoEarnings: [null] }] }))).toThrow(BackupFormatError);
+  });
+
+  it.each(['grandTotal', 'timestamp', 'videoEarnings', 'labelSummaries'])('rejects an analysis without %s', field => {
+    const { [field as keyof typeof analysis]: _, ...partial } = analysis;
+    expect(() => parseBackup(JSON.stringify({ version: 1, history: [partial] }))).toThrow(BackupFormatError);
+  });
+
+  it('rejects videos and labels with missing totals', () => {
+    const video = { title: 'Video', label: 'Food' };
+    expect(() => parseBackup(JSON.stringify({ version: 1, history: [{ ...analysis, videoEarnings: [video] }] }))).toThrow(BackupFormatError);
+    expect(() => parseBackup(JSON.stringify({ version: 1, history: [{ ...analysis, labelSummaries: [{ label: 'Food' }] }] }))).toThrow(BackupFormatError);
+  });
+});
+
+describe('restoreHistory', () => {
+  const entry = (id: string, grandTotal: number, timestamp: number): AnalysisResult =>
+    ({ ...parseBackup(JSON.stringify([analysis])).history[0], id, grandTotal, timestamp });
+  const lock = { lockedAt: 1, totalBonus: 10 } as PayoutLock;
+  const existing = [{ ...entry('locked', 100, 1), payoutLock: lock }, entry('open', 50, 1)];
+  const incoming = [entry('locked', 999, 2), entry('open', 60, 2)];
+
+  it.each(['merge', 'replace'] as const)('keeps locked periods and logs the skipped copy (%s)', mode => {
+    const { history, skippedLocked } = restoreHistory(existing, incoming, mode);
+    const locked = history.find(h => h.id === 'locked')!;
+    expect(skippedLocked).toEqual(['locked']);
+    expect(locked.grandTotal).toBe(100);
+    expect(locked.payoutLock).toBe(lock);
+    expect(locked.auditLog!.at(-1)).toMatchObject({ action: 'restore', changes: [] });
+  });
+
+  it('logs the totals of the copy it overwrites', () => {
+    const { history } = restoreHistory(existing, incoming, 'merge');
+    expect(history.find(h => h.id === 'open')!.auditLog!.at(-1)!.changes).toContainEqual({ field: 'grandTotal', oldValue: 50, newValue: 60 });
+  });
+
+  it('keeps locked periods the backup does not have when replacing', () => {
+    const { history, skippedLocked } = restoreHistory(existing, [entry('new', 5, 3)], 'replace');
+    expect(history.map(h => h.id)).toEqual(['new', 'locked']);
+    expect(skippedLocked).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ChatContext, VideoEarning } from '../../types';
+import { runChatTool } from '../chatToolsService';
+import { DEFAULT_EARNING_TIERS } from '../tierService';
+
+const videos: VideoEarning[] = Array.from({ length: 60 }, (_, i) => ({ title: `Video ${i}`, label: 'Food', totalEarning: i, hashtags: [] }));
+const context: ChatContext = { videos, lowEarningThreshold: 1, tiers: DEFAULT_EARNING_TIERS, language: 'vi' };
+
+const videoCount = (name: string, args: Record<string, unknown>) =>
+  (runChatTool(name, args, context) as { videos: unknown[] }).videos.length;
+
+describe('runChatTool', () => {
+  it.each([[-5, 1], [0, 1], [2.7, 2], ['3', 3], [500, 50], ['x', 10]])('clamps top_videos n=%s to %i', (n, expected) => {
+    expect(videoCount('top_videos', { n })).toBe(expected);
+  });
+
+  it('clamps the filter_videos limit the same way', () => {
+    expect(videoCount('filter_videos', { limit: -1 })).toBe(1);
+    expect(videoCount('filter_videos', {})).toBe(20);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseInsightJson } from '../insightSchemaService';
+
+describe('parseInsightJson', () => {
+  it('reads a fenced reply and drops malformed parts', () => {
+    const reply = '```json\n' + JSON.stringify({
+      summary: ' Ẩm thực dẫn đầu. ',
+      topLabel: { label: 'Food', reason: 'Nhiều video' },
+      underperformingLabels: [null, 'Gym', { label: ' ' }, { label: 'Travel', reason: 3 }],
+      recommendations: [{ text: 'Đăng thêm video nấu ăn', priority: 'urgent', label: 'Food' }, { text: '' }, 42],
+      lowEarningRisk: 'cao'
+    }) + '\n```';
+
+    const insight = parseInsightJson(reply, 'openai', 'llama3');
+    expect(insight?.summary).toBe('Ẩm thực dẫn đầu.');
+    expect(insight?.topLabel).toEqual({ label: 'Food', reason: 'Nhiều video' });
+    expect(insight?.underperformingLabels).toEqual([{ label: 'Travel', reason: '' }]);
+    expect(insight?.recommendations).toEqual([{ priority: 'medium', text: 'Đăng thêm video nấu ăn', label: 'Food' }]);
+    expect(insight?.lowEarningRisk).toEqual({ level: 'medium', note: '' });
+  });
+
+  it.each(['không phải JSON', '[]', 'null', '{"summary": 1}', '{"summary": "  "}'])('returns null for %s', reply => {
+    expect(parseInsightJson(reply, 'gemini')).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIProviderConfig } from '../../types';
+import { fetchEmbeddings, openAICompatibleProvider } from '../openAICompatibleService';
+
+const config: AIProviderConfig = { provider: 'openai', baseUrl: 'http://localhost:11434/v1', model: 'llama3' };
+
+const reply = (json: unknown) => vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(json))));
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('openAICompatibleService', () => {
+  it('reads tool calls and skips malformed fields', async () => {
+    reply({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', function: { name: 'topVideos', arguments: '{"limit":3}' } }, { function: { arguments: '[1]' } }] } }] });
+    const result = await openAICompatibleProvider.chat('system', [], [], config);
+    expect(result.ok).toBe(true);
+    const toolCalls = result.ok === true ? result.message.toolCalls! : [];
+    expect(toolCalls[0]).toEqual({ id: 'c1', name: 'topVideos', args: { limit: 3 } });
+    expect(toolCalls[1]).toMatchObject({ name: '', args: {} });
+  });
+
+  it.each([{}, { choices: 'x' }, { choices: [{ message: 'hi' }] }, null])('reports an empty reply for %j', async json => {
+    reply(json);
+    expect(await openAICompatibleProvider.chat('system', [], [], config)).toMatchObject({ ok: false, code: 'emptyResponse' });
+  });
+
+  it('orders embeddings by index and rejects non-numeric vectors', async () => {
+    reply({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+    expect(await fetchEmbeddings(['a', 'b'], config, 'nomic-embed-text')).toEqual({ ok: true, vectors: [[1, 0], [0, 1]] });
+
+    reply({ data: [{ index: 0, embedding: [1, 0] }, { index: 1, embedding: ['x'] }] });
+    expect(await fetchEmbeddings(['a', 'b'], config, 'nomic-embed-text')).toMatchObject({ ok: false, code: 'invalidResponse' });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { UrlViewState } from '../../types';
+import { decodeViewState, differsOnlyInInputs, encodeViewState } from '../urlStateService';
+
+const state: UrlViewState = {
+  analysisId: 'a1',
+  selectedLabels: ['Ẩm thực'],
+  selectedHashtags: ['#pho'],
+  hideLowEarnings: true,
+  hideLowEarningLabels: false,
+  lowEarningThreshold: 2.5,
+  bonusPercentage: 7,
+  exchangeRate: 25400
+};
+
+describe('view state in the URL hash', () => {
+  it('round-trips the filters together with the low-earning threshold', () => {
+    expect(decodeViewState(encodeViewState(state, ['Ẩm thực', 'Thể hình']))).toEqual(state);
+  });
+
+  it('leaves the threshold unset for links made before it was saved', () => {
+    expect(decodeViewState('#a=a1&low=1').lowEarningThreshold).toBeUndefined();
+  });
+
+  it('treats a threshold change as a typed-in setting', () => {
+    const allLabels = ['Ẩm thực', 'Thể hình'];
+    expect(differsOnlyInInputs(encodeViewState(state, allLabels), encodeViewState({ ...state, lowEarningThreshold: 3 }, allLabels))).toBe(true);
+  });
+});
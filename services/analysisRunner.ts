@@ -0,0 +1,62 @@
+import { AnalysisOptions, AnalysisResult, AnalysisWorkerRequest, AnalysisWorkerResponse, ParsedFile } from "../types";
+
+export interface AnalysisProgress {
+  rowsProcessed: number;
+  progress: number; // 0..1
+}
+
+export interface AnalysisRun {
+  promise: Promise<AnalysisResult>;
+  cancel: () => void;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super("Analysis cancelled");
+    this.name = "AnalysisCancelledError";
+  }
+}
+
+/**
+ * Runs parsing and aggregation in a dedicated worker. Cancelling terminates
+ * the worker outright, which also stops any CSV still being streamed.
+ */
+export const runAnalysis = (
+  files: ParsedFile[],
+  onProgress: (progress: AnalysisProgress) => void,
+  options: AnalysisOptions = {}
+): AnalysisRun => {
+  const worker = new Worker(new URL('../workers/analysisWorker.ts', import.meta.url), { type: 'module' });
+  let rejectRun: (reason: Error) => void = () => {};
+
+  const promise = new Promise<AnalysisResult>((resolve, reject) => {
+    rejectRun = reject;
+    worker.addEventListener('message', (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress({ rowsProcessed: message.rowsProcessed, progress: message.progress });
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    });
+    const request: AnalysisWorkerRequest = { type: 'analyze', files, options };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectRun(new AnalysisCancelledError());
+    }
+  };
+};
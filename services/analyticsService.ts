@@ -0,0 +1,474 @@
+import { AnalysisOptions, AnalysisResult, EfficiencyStats, FilterSpec, HashtagPair, HashtagSummary, LabelSummary, ParseWarning, ParsedFile, RawCSVRow, TitleMatch, VideoConflict, VideoEarning, VideoQuery } from "../types";
+import { readField } from "./columnMappingService";
+import { addDailyEarning, toDateKey } from "./timeSeriesService";
+import { parseDate, parseNumber } from "./localeService";
+import { DEFAULT_LOW_EARNING_THRESHOLD } from "./tierService";
+
+export const extractHashtags = (text: string): string[] => {
+  if (!text) return [];
+  const matches = text.match(/#[\p{L}\p{N}_]+/gu);
+  return matches ? Array.from(new Set(matches.map(tag => tag.toLowerCase()))) : [];
+};
+
+export type AggregatorSource = Pick<ParsedFile, 'fileName' | 'mapping' | 'parseSettings'>;
+
+// Keeps the stored list bounded; the full count is reported separately
+const MAX_PARSE_WARNINGS = 500;
+
+// Enough text for topic grouping without bloating saved history
+const MAX_DESCRIPTION_LENGTH = 300;
+
+export const UNLABELED_LABEL = "Không có nhãn";
+
+/**
+ * Identity of a video across rows, files and periods. The platform ID wins;
+ * the title is only a fallback for exports without an ID column.
+ */
+export const videoIdentity = (video: Pick<VideoEarning, 'assetId' | 'title'>) =>
+  video.assetId ? `id:${video.assetId}` : `title:${video.title}`;
+
+export const summarizeLabels = (videos: VideoEarning[]): LabelSummary[] => {
+  const labelMap = new Map<string, LabelSummary>();
+  videos.forEach(v => {
+    if (!labelMap.has(v.label)) {
+      labelMap.set(v.label, { label: v.label, totalEarning: 0, videoCount: 0 });
+    }
+    const summary = labelMap.get(v.label)!;
+    summary.totalEarning += v.totalEarning;
+    summary.videoCount++;
+  });
+  return Array.from(labelMap.values()).sort((a, b) => b.totalEarning - a.totalEarning);
+};
+
+const addVariant = (variants: Map<string, Map<string, number>>, key: string, value: string, earning: number) => {
+  if (!variants.has(key)) variants.set(key, new Map());
+  const counts = variants.get(key)!;
+  counts.set(value, (counts.get(value) || 0) + earning);
+};
+
+// The variant carrying the most earnings wins; ties keep the first one seen
+const dominantVariant = (counts: Map<string, number>) => {
+  let best: string | undefined;
+  let bestEarning = -Infinity;
+  counts.forEach((earning, value) => {
+    if (earning > bestEarning) {
+      best = value;
+      bestEarning = earning;
+    }
+  });
+  return best!;
+};
+
+export const findMissingColumns = (files: Pick<ParsedFile, 'fileName' | 'mapping'>[]): string[] => {
+  const missing: string[] = [];
+  const isMultiFile = files.length > 1;
+  files.forEach(({ fileName, mapping }) => {
+    const suffix = isMultiFile ? ` (${fileName})` : "";
+
+    if (!mapping.assetId) missing.push(`Post ID / ID tài sản video${suffix}`);
+    if (!mapping.description) missing.push(`Description / Mô tả${suffix}`);
+    if (!mapping.date) missing.push(`Ngày / Date${suffix}`);
+    if (!mapping.label) missing.push(`Nhãn tùy chỉnh / Custom labels${suffix}`);
+  });
+  return missing;
+};
+
+/**
+ * Incremental aggregation so rows can be fed in chunks while a file streams.
+ * Keeps only running min/max dates, never the full list, so no step spreads
+ * an array proportional to the row count.
+ */
+export const createAggregator = () => {
+  const videoMap = new Map<string, VideoEarning>();
+  const titleVariants = new Map<string, Map<string, number>>();
+  const labelVariants = new Map<string, Map<string, number>>();
+  const idKeysByTitle = new Map<string, Set<string>>();
+  const hashtagSet = new Set<string>();
+  const seenRows = new Set<string>();
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+  const rowNumbers = new Map<string, number>();
+  const parseWarnings: ParseWarning[] = [];
+  let parseWarningCount = 0;
+  let duplicateRowCount = 0;
+  let rowCount = 0;
+
+  const warn = (warning: ParseWarning) => {
+    parseWarningCount++;
+    if (parseWarnings.length < MAX_PARSE_WARNINGS) parseWarnings.push(warning);
+  };
+
+  const addRow = (row: RawCSVRow, { fileName, mapping, parseSettings }: AggregatorSource) => {
+    rowCount++;
+    // +1 for the header line so the number matches what a spreadsheet shows
+    const rowNumber = (rowNumbers.get(fileName) || 1) + 1;
+    rowNumbers.set(fileName, rowNumber);
+    const title = readField(row, mapping, 'title')?.toString().trim();
+    const label = readField(row, mapping, 'label')?.toString().trim() || UNLABELED_LABEL;
+    const assetId = readField(row, mapping, 'assetId')?.toString().trim() || undefined;
+    const dateStr = readField(row, mapping, 'date')?.toString().trim();
+    const description = readField(row, mapping, 'description')?.toString() || "";
+    const rowHashtags = extractHashtags(description);
+    const shortDescription = description.trim().slice(0, MAX_DESCRIPTION_LENGTH) || undefined;
+
+    const parsedDate = dateStr ? parseDate(dateStr, parseSettings.dateFormat) : null;
+    const dateKey = parsedDate ? toDateKey(parsedDate) : undefined;
+
+    // The same post/day can appear in overlapping exports, possibly with
+    // different date formats; count it only once
+    if (assetId) {
+      const rowKey = `${assetId}|${dateKey || dateStr || ""}`;
+      if (seenRows.has(rowKey)) {
+        duplicateRowCount++;
+        return;
+      }
+      seenRows.add(rowKey);
+    }
+
+    const rawEarning = readField(row, mapping, 'earnings');
+    const parsedEarning = parseNumber(rawEarning, parseSettings.numberLocale);
+    if (parsedEarning === null) {
+      warn({ fileName, row: rowNumber, field: 'earnings', value: String(rawEarning) });
+    }
+    const earning = parsedEarning ?? 0;
+
+    if (parsedDate) {
+      const time = parsedDate.getTime();
+      if (time < minTime) minTime = time;
+      if (time > maxTime) maxTime = time;
+    } else if (dateStr) {
+      warn({ fileName, row: rowNumber, field: 'date', value: dateStr });
+    }
+
+    if (!title) return;
+
+    const key = videoIdentity({ assetId, title });
+    addVariant(titleVariants, key, title, earning);
+    addVariant(labelVariants, key, label, earning);
+    if (assetId) {
+      if (!idKeysByTitle.has(title)) idKeysByTitle.set(title, new Set());
+      idKeysByTitle.get(title)!.add(key);
+    }
+
+    if (videoMap.has(key)) {
+      const existing = videoMap.get(key)!;
+      if (dateKey) addDailyEarning(existing, dateKey, earning);
+      existing.totalEarning += earning;
+      if (!existing.description) existing.description = shortDescription;
+      rowHashtags.forEach(tag => {
+        if (!existing.hashtags.includes(tag)) {
+          existing.hashtags.push(tag);
+        }
+      });
+      if (!existing.sourceFiles!.includes(fileName)) {
+        existing.sourceFiles!.push(fileName);
+      }
+    } else {
+      videoMap.set(key, {
+        title,
+        label,
+        totalEarning: earning,
+        assetId,
+        date: dateStr,
+        hashtags: rowHashtags,
+        description: shortDescription,
+        sourceFiles: [fileName],
+        dailyEarnings: dateKey ? [{ date: dateKey, earning }] : []
+      });
+    }
+
+    rowHashtags.forEach(tag => hashtagSet.add(tag));
+  };
+
+  // Rows without an ID (e.g. from a file lacking the ID column) stay a video
+  // of their own; a title shared with exactly one ID-keyed video is only
+  // offered for merging in the reconciliation view
+  const findTitleMatches = (): TitleMatch[] => {
+    const matches: TitleMatch[] = [];
+    videoMap.forEach(video => {
+      if (video.assetId) return;
+      const idKeys = idKeysByTitle.get(video.title);
+      if (!idKeys || idKeys.size !== 1) return;
+      const target = videoMap.get(idKeys.values().next().value!)!;
+      const targetDates = new Set(target.dailyEarnings?.map(d => d.date));
+      const overlap = video.dailyEarnings?.filter(d => targetDates.has(d.date)) || [];
+      matches.push({
+        title: video.title,
+        assetId: target.assetId!,
+        earning: video.totalEarning,
+        overlapDays: overlap.length,
+        overlapEarning: overlap.reduce((acc, d) => acc + d.earning, 0)
+      });
+    });
+    return matches;
+  };
+
+  const resolveVariants = (): VideoConflict[] => {
+    const conflicts: VideoConflict[] = [];
+    videoMap.forEach((video, key) => {
+      const titles = titleVariants.get(key)!;
+      const labels = labelVariants.get(key)!;
+      video.title = dominantVariant(titles);
+      video.label = dominantVariant(labels);
+      if (video.assetId && (titles.size > 1 || labels.size > 1)) {
+        conflicts.push({
+          assetId: video.assetId,
+          titles: Array.from(titles.entries()).map(([title, earning]) => ({ title, earning })),
+          labels: Array.from(labels.entries()).map(([label, earning]) => ({ label, earning })),
+          resolvedTitle: video.title,
+          resolvedLabel: video.label
+        });
+      }
+    });
+    return conflicts;
+  };
+
+  const addRows = (rows: RawCSVRow[], source: AggregatorSource) => {
+    for (const row of rows) addRow(row, source);
+  };
+
+  const finish = (files: Pick<ParsedFile, 'fileName' | 'mapping'>[], options: AnalysisOptions = {}): AnalysisResult => {
+    const titleMatches = findTitleMatches();
+    const conflicts = resolveVariants();
+    const videoEarnings = Array.from(videoMap.values()).sort((a, b) => b.totalEarning - a.totalEarning);
+    const lowEarningThreshold = options.lowEarningThreshold ?? DEFAULT_LOW_EARNING_THRESHOLD;
+    const lowEarningCount = videoEarnings.filter(v => v.totalEarning < lowEarningThreshold).length;
+
+    const labelSummaries = summarizeLabels(videoEarnings);
+
+    const grandTotal = labelSummaries.reduce((acc, curr) => acc + curr.totalEarning, 0);
+
+    let startDate, endDate;
+    if (minTime !== Infinity) {
+      const formatDate = (d: Date) => d.toLocaleDateString('vi-VN');
+      startDate = formatDate(new Date(minTime));
+      endDate = formatDate(new Date(maxTime));
+    }
+
+    const sourceFiles = files.map(f => f.fileName);
+    return {
+      id: options.id ?? crypto.randomUUID(),
+      fileName: sourceFiles.join(', '),
+      timestamp: options.timestamp ?? Date.now(),
+      videoEarnings,
+      labelSummaries,
+      grandTotal,
+      lowEarningCount,
+      startDate,
+      endDate,
+      allHashtags: Array.from(hashtagSet).sort(),
+      aiInsight: null,
+      missingColumns: findMissingColumns(files),
+      sourceFiles,
+      duplicateRowCount,
+      parseWarnings,
+      parseWarningCount,
+      conflicts,
+      titleMatches
+    };
+  };
+
+  return { addRow, addRows, finish, getRowCount: () => rowCount };
+};
+
+/**
+ * One-shot variant of the aggregator for files whose rows are already in
+ * memory. Pass `id`/`timestamp` for deterministic output.
+ */
+export const analyzeRows = (
+  files: (AggregatorSource & { rows: RawCSVRow[] })[],
+  options: AnalysisOptions = {}
+): AnalysisResult => {
+  const aggregator = createAggregator();
+  files.forEach(file => aggregator.addRows(file.rows, file));
+  return aggregator.finish(files, options);
+};
+
+export const applyFilters = (data: AnalysisResult, spec: FilterSpec): AnalysisResult => {
+  const { selectedLabels, selectedHashtags, hideLowEarnings, hideLowEarningLabels } = spec;
+  const threshold = spec.lowEarningThreshold ?? DEFAULT_LOW_EARNING_THRESHOLD;
+
+  let workingLabels = data.labelSummaries.filter(l => selectedLabels.includes(l.label));
+  if (hideLowEarningLabels) {
+    workingLabels = workingLabels.filter(l => l.totalEarning >= threshold);
+  }
+
+  const labelNamesToInclude = new Set(workingLabels.map(l => l.label));
+  let filteredVideos = data.videoEarnings.filter(v => labelNamesToInclude.has(v.label));
+
+  if (selectedHashtags.length > 0) {
+    filteredVideos = filteredVideos.filter(v =>
+      selectedHashtags.some(tag => v.hashtags.includes(tag))
+    );
+  }
+
+  if (hideLowEarnings) {
+    filteredVideos = filteredVideos.filter(v => v.totalEarning >= threshold);
+  }
+
+  const finalLabels = workingLabels.map(l => {
+    const videosForThisLabel = filteredVideos.filter(v => v.label === l.label);
+    return {
+      ...l,
+      totalEarning: videosForThisLabel.reduce((acc, v) => acc + v.totalEarning, 0),
+      videoCount: videosForThisLabel.length
+    };
+  })
+  .filter(l => l.videoCount > 0)
+  .sort((a, b) => b.totalEarning - a.totalEarning);
+
+  const filteredTotal = finalLabels.reduce((acc, curr) => acc + curr.totalEarning, 0);
+  const filteredLowCount = filteredVideos.filter(v => v.totalEarning < threshold).length;
+
+  return {
+    ...data,
+    labelSummaries: finalLabels,
+    videoEarnings: filteredVideos,
+    grandTotal: filteredTotal,
+    lowEarningCount: filteredLowCount
+  };
+};
+
+// First day a video earned, as yyyy-mm-dd; used for date sorting and range filters
+export const firstDateKey = (video: VideoEarning) =>
+  video.dailyEarnings?.reduce<string | undefined>((min, d) => !min || d.date < min ? d.date : min, undefined);
+
+export const queryVideos = (videos: VideoEarning[], query: VideoQuery): VideoEarning[] => {
+  const search = query.search.trim().toLowerCase();
+  const filtered = videos.filter(v => {
+    if (search && !v.title.toLowerCase().includes(search) && !(v.assetId || '').includes(search)) return false;
+    if (query.minEarning !== undefined && v.totalEarning < query.minEarning) return false;
+    if (query.maxEarning !== undefined && v.totalEarning > query.maxEarning) return false;
+    if (query.dateFrom || query.dateTo) {
+      const date = firstDateKey(v);
+      if (!date) return false;
+      if (query.dateFrom && date < query.dateFrom) return false;
+      if (query.dateTo && date > query.dateTo) return false;
+    }
+    return true;
+  });
+
+  const direction = query.sortDir === 'asc' ? 1 : -1;
+  const keyOf = (v: VideoEarning) => query.sortKey === 'date' ? firstDateKey(v) || '' : v[query.sortKey] ?? '';
+  return filtered.sort((a, b) => {
+    const ka = keyOf(a);
+    const kb = keyOf(b);
+    const order = typeof ka === 'number' && typeof kb === 'number' ? ka - kb : String(ka).localeCompare(String(kb), 'vi');
+    return order * direction;
+  });
+};
+
+export const computeEfficiencyStats = (labelSummaries: LabelSummary[]): EfficiencyStats => {
+  const efficiencies = labelSummaries.map(l => l.videoCount > 0 ? l.totalEarning / l.videoCount : 0);
+  return {
+    efficiencies,
+    max: efficiencies.reduce((max, e) => Math.max(max, e), 0),
+    average: efficiencies.length > 0 ? efficiencies.reduce((a, b) => a + b, 0) / efficiencies.length : 0
+  };
+};
+
+export const countHashtags = (videos: VideoEarning[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  videos.forEach(v => {
+    v.hashtags.forEach(tag => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    });
+  });
+  return counts;
+};
+
+export const summarizeHashtags = (videos: VideoEarning[], lowEarningThreshold: number): HashtagSummary[] => {
+  const byTag = new Map<string, HashtagSummary>();
+  videos.forEach(v => {
+    new Set(v.hashtags).forEach(tag => {
+      const summary = byTag.get(tag) || { tag, videoCount: 0, totalEarning: 0, averageEarning: 0, lowEarningCount: 0, lowEarningShare: 0 };
+      summary.videoCount++;
+      summary.totalEarning += v.totalEarning;
+      if (v.totalEarning < lowEarningThreshold) summary.lowEarningCount++;
+      byTag.set(tag, summary);
+    });
+  });
+  return Array.from(byTag.values())
+    .map(s => ({ ...s, averageEarning: s.totalEarning / s.videoCount, lowEarningShare: s.lowEarningCount / s.videoCount }))
+    .sort((a, b) => b.totalEarning - a.totalEarning);
+};
+
+// Hashtags used together on the same video, most frequent pairs first
+export const findHashtagPairs = (videos: VideoEarning[], limit = 20): HashtagPair[] => {
+  const pairs = new Map<string, HashtagPair>();
+  videos.forEach(v => {
+    const tags = Array.from(new Set(v.hashtags)).sort();
+    for (let i = 0; i < tags.length; i++) {
+      for (let j = i + 1; j < tags.length; j++) {
+        const key = `${tags[i]} ${tags[j]}`; // tags never contain spaces
+        const pair = pairs.get(key) || { tags: [tags[i], tags[j]] as [string, string], videoCount: 0, totalEarning: 0 };
+        pair.videoCount++;
+        pair.totalEarning += v.totalEarning;
+        pairs.set(key, pair);
+      }
+    }
+  });
+  return Array.from(pairs.values())
+    .sort((a, b) => b.videoCount - a.videoCount || b.totalEarning - a.totalEarning)
+    .slice(0, limit);
+};
+
+/**
+ * Applies a manual choice from the reconciliation view to the video with the
+ * given ID and rebuilds the label summaries around it.
+ */
+export const resolveConflict = (
+  data: AnalysisResult,
+  assetId: string,
+  choice: { title?: string; label?: string }
+): AnalysisResult => {
+  const videoEarnings = data.videoEarnings.map(v => v.assetId === assetId ? { ...v, ...choice } : v);
+  const conflicts = data.conflicts?.map(c => c.assetId === assetId ? {
+    ...c,
+    resolvedTitle: choice.title ?? c.resolvedTitle,
+    resolvedLabel: choice.label ?? c.resolvedLabel,
+    manuallyResolved: true
+  } : c);
+  return { ...data, videoEarnings, conflicts, labelSummaries: summarizeLabels(videoEarnings) };
+};
+
+/**
+ * Merges the title-only video of a TitleMatch into the video with its Post ID.
+ * Days the ID-keyed video already has are the same rows seen twice, so only
+ * the other days are added.
+ */
+export const mergeTitleMatch = (data: AnalysisResult, title: string): AnalysisResult => {
+  const match = data.titleMatches?.find(m => m.title === title && !m.merged);
+  const source = data.videoEarnings.find(v => !v.assetId && v.title === title);
+  const target = data.videoEarnings.find(v => v.assetId === match?.assetId);
+  if (!match || !source || !target) return data;
+
+  const merged: VideoEarning = {
+    ...target,
+    dailyEarnings: (target.dailyEarnings || []).map(d => ({ ...d })),
+    hashtags: Array.from(new Set([...target.hashtags, ...source.hashtags])),
+    sourceFiles: Array.from(new Set([...(target.sourceFiles || []), ...(source.sourceFiles || [])])),
+    description: target.description || source.description
+  };
+  const targetDates = new Set(target.dailyEarnings?.map(d => d.date));
+  let overlap = 0;
+  source.dailyEarnings?.forEach(d => {
+    if (targetDates.has(d.date)) overlap += d.earning;
+    else addDailyEarning(merged, d.date, d.earning);
+  });
+  merged.totalEarning = target.totalEarning + source.totalEarning - overlap;
+
+  const videoEarnings = data.videoEarnings
+    .filter(v => v !== source)
+    .map(v => v === target ? merged : v)
+    .sort((a, b) => b.totalEarning - a.totalEarning);
+  const labelSummaries = summarizeLabels(videoEarnings);
+  return {
+    ...data,
+    videoEarnings,
+    labelSummaries,
+    grandTotal: labelSummaries.reduce((acc, l) => acc + l.totalEarning, 0),
+    duplicateRowCount: (data.duplicateRowCount || 0) + match.overlapDays,
+    titleMatches: data.titleMatches!.map(m => m === match ? { ...m, merged: true } : m)
+  };
+};
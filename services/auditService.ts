@@ -0,0 +1,180 @@
+import { AnalysisResult, AuditAction, AuditChange, FilterSpec, PayoutLock, VideoConflict } from "../types";
+import { mergeTitleMatch, resolveConflict } from "./analyticsService";
+import { describeRateSetup } from "./exchangeRateService";
+import { DEFAULT_LOW_EARNING_THRESHOLD } from "./tierService";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  lock: 'Chốt kỳ',
+  unlock: 'Mở khóa',
+  recompute: 'Tính lại',
+  resolveConflict: 'Đối soát video',
+  restore: 'Khôi phục sao lưu'
+};
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  exchangeRate: 'Tỷ giá mặc định',
+  exchangeRates: 'Tỷ giá theo kỳ',
+  bonusPercentage: '% Bonus mặc định',
+  bonusRules: 'Quy tắc bonus',
+  filters: 'Bộ lọc',
+  totalBonus: 'Tổng bonus ($)',
+  grandTotal: 'Tổng doanh thu ($)',
+  videoCount: 'Số video',
+  title: 'Tiêu đề',
+  label: 'Nhãn',
+  manualResolutions: 'Đối soát thủ công'
+};
+
+export const describeFilters = (filters: FilterSpec) => {
+  const parts = [`${filters.selectedLabels.length} nhãn`];
+  if (filters.selectedHashtags.length > 0) parts.push(`hashtag: ${filters.selectedHashtags.join(' ')}`);
+  const threshold = filters.lowEarningThreshold ?? DEFAULT_LOW_EARNING_THRESHOLD;
+  if (filters.hideLowEarnings) parts.push(`ẩn video < $${threshold}`);
+  if (filters.hideLowEarningLabels) parts.push(`ẩn nhãn < $${threshold}`);
+  return parts.join(', ');
+};
+
+const lockValues = (lock: PayoutLock): Record<string, string | number> => ({
+  exchangeRate: lock.exchangeRate,
+  exchangeRates: describeRateSetup(lock.exchangeRates || [], lock.rateBasis || 'payoutDate'),
+  bonusPercentage: lock.bonusPercentage,
+  bonusRules: lock.bonusRules.map(r => r.name).join(', ') || 'Mặc định',
+  filters: describeFilters(lock.filters),
+  totalBonus: Number(lock.totalBonus.toFixed(2))
+});
+
+export const appendAudit = (
+  data: AnalysisResult,
+  action: AuditAction,
+  changes: AuditChange[],
+  note?: string
+): AnalysisResult => ({
+  ...data,
+  auditLog: [...(data.auditLog || []), { id: crypto.randomUUID(), timestamp: Date.now(), action, changes, ...(note ? { note } : {}) }]
+});
+
+/**
+ * Freezes the payout of an analysis. When the period was locked before, the
+ * values it was last unlocked with are logged as the old side of each change.
+ */
+export const lockPayout = (data: AnalysisResult, lock: PayoutLock): AnalysisResult => {
+  const lastUnlock = [...(data.auditLog || [])].reverse().find(a => a.action === 'unlock');
+  const previous = new Map(lastUnlock?.changes.map(c => [c.field, c.oldValue]) || []);
+  const changes = Object.entries(lockValues(lock)).map(([field, newValue]) => ({
+    field,
+    oldValue: previous.get(field) ?? null,
+    newValue
+  }));
+  return appendAudit({ ...data, payoutLock: lock }, 'lock', changes);
+};
+
+export const unlockPayout = (data: AnalysisResult, reason: string): AnalysisResult => {
+  if (!data.payoutLock) return data;
+  const changes = Object.entries(lockValues(data.payoutLock)).map(([field, oldValue]) => ({ field, oldValue, newValue: null }));
+  const { payoutLock, ...unlocked } = data;
+  return appendAudit(unlocked, 'unlock', changes, reason);
+};
+
+const totalsChanges = (previous: AnalysisResult, next: AnalysisResult): AuditChange[] => [
+  { field: 'grandTotal', oldValue: Number(previous.grandTotal.toFixed(2)), newValue: Number(next.grandTotal.toFixed(2)) },
+  { field: 'videoCount', oldValue: previous.videoEarnings.length, newValue: next.videoEarnings.length }
+];
+
+// What the user added to an analysis, as opposed to what the source rows produce
+const keptUserFields = (previous: AnalysisResult) => {
+  const kept: string[] = [];
+  if (previous.chat?.length) kept.push(`hội thoại (${previous.chat.length} tin nhắn)`);
+  if (previous.payoutCurrency) kept.push(`tiền tệ ${previous.payoutCurrency}`);
+  return kept;
+};
+
+const sameNames = (a: string[], b: string[]) => a.length === b.length && a.every(name => b.includes(name));
+
+const sameVariants = (a: VideoConflict, b: VideoConflict) =>
+  sameNames(a.titles.map(t => t.title), b.titles.map(t => t.title)) &&
+  sameNames(a.labels.map(l => l.label), b.labels.map(l => l.label));
+
+// A manual choice is only re-applied while the video offers the same titles and labels to choose from
+const reapplyResolutions = (previous: AnalysisResult, next: AnalysisResult) => {
+  let result = next;
+  const dropped: string[] = [];
+  const manual = previous.conflicts?.filter(c => c.manuallyResolved) || [];
+  manual.forEach(choice => {
+    const conflict = result.conflicts?.find(c => c.assetId === choice.assetId);
+    if (conflict && sameVariants(choice, conflict)) {
+      result = resolveConflict(result, choice.assetId, { title: choice.resolvedTitle, label: choice.resolvedLabel });
+    } else {
+      dropped.push(choice.assetId);
+    }
+  });
+  const merges = previous.titleMatches?.filter(m => m.merged) || [];
+  merges.forEach(merge => {
+    if (result.titleMatches?.some(m => m.title === merge.title && m.assetId === merge.assetId)) {
+      result = mergeTitleMatch(result, merge.title);
+    } else {
+      dropped.push(merge.assetId);
+    }
+  });
+  return { result, manualCount: manual.length + merges.length, dropped };
+};
+
+/**
+ * A recomputed result replaces the old one but keeps its audit trail, the
+ * fields the user set on it (chat, payout currency) and the manual conflict
+ * resolutions and title merges that still apply. The AI insight described the
+ * old numbers, so it is dropped. The audit note lists what was carried over
+ * and what was dropped.
+ */
+export const recordRecompute = (previous: AnalysisResult, next: AnalysisResult): AnalysisResult => {
+  const changes = totalsChanges(previous, next);
+  const kept = keptUserFields(previous);
+  const { result, manualCount, dropped } = reapplyResolutions(previous, next);
+  if (manualCount > 0) {
+    changes.push({ field: 'manualResolutions', oldValue: manualCount, newValue: manualCount - dropped.length });
+  }
+  const notes = [
+    ...(kept.length > 0 ? [`Giữ lại: ${kept.join(', ')}`] : []),
+    ...(dropped.length > 0 ? [`Bỏ đối soát do dữ liệu đã đổi: Post ID ${dropped.join(', ')}`] : []),
+    ...(previous.aiInsight ? ['Bỏ phân tích AI cũ'] : [])
+  ];
+  const merged: AnalysisResult = {
+    ...result,
+    chat: previous.chat,
+    payoutCurrency: previous.payoutCurrency,
+    auditLog: previous.auditLog
+  };
+  return appendAudit(merged, 'recompute', changes, notes.join('. ') || undefined);
+};
+
+/**
+ * Marks an analysis taken from a backup. `current` is the copy it replaces,
+ * if the workspace had one.
+ */
+export const recordRestore = (incoming: AnalysisResult, current?: AnalysisResult): AnalysisResult =>
+  current
+    ? appendAudit(incoming, 'restore', totalsChanges(current, incoming), 'Ghi đè bằng bản trong tệp sao lưu')
+    : appendAudit(incoming, 'restore', [], 'Thêm từ tệp sao lưu');
+
+// A locked period never takes the backup's copy; the skip is still logged on it
+export const recordRestoreSkipped = (locked: AnalysisResult): AnalysisResult =>
+  appendAudit(locked, 'restore', [], 'Kỳ đã chốt: giữ nguyên, bỏ qua bản trong tệp sao lưu');
+
+export const recordTitleMerge = (previous: AnalysisResult, next: AnalysisResult, title: string): AnalysisResult => {
+  const match = previous.titleMatches?.find(m => m.title === title);
+  return next === previous || !match
+    ? next
+    : appendAudit(next, 'resolveConflict', totalsChanges(previous, next), `Gộp video không có Post ID "${title}" vào Post ID ${match.assetId}`);
+};
+
+export const recordConflictResolution = (
+  previous: AnalysisResult,
+  next: AnalysisResult,
+  assetId: string,
+  choice: { title?: string; label?: string }
+): AnalysisResult => {
+  const video = previous.videoEarnings.find(v => v.assetId === assetId);
+  const changes: AuditChange[] = (['title', 'label'] as const)
+    .filter(field => choice[field] !== undefined && choice[field] !== video?.[field])
+    .map(field => ({ field, oldValue: video?.[field] ?? null, newValue: choice[field]! }));
+  return changes.length > 0 ? appendAudit(next, 'resolveConflict', changes, `Post ID ${assetId}`) : next;
+};
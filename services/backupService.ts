@@ -0,0 +1,172 @@
+import { AnalysisResult, BackupRestoreMode, LabelSummary, VideoEarning, WorkspaceBackup, WorkspaceSettings } from "../types";
+import { recordRestore, recordRestoreSkipped } from "./auditService";
+import { upsertRates } from "./exchangeRateService";
+import { isFiniteNumber, isRecord, nonEmptyString, stringList } from "./jsonService";
+import { DEFAULT_EARNING_TIERS, DEFAULT_LOW_EARNING_THRESHOLD } from "./tierService";
+
+export const BACKUP_VERSION = 1;
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+export const createBackup = (history: AnalysisResult[], settings: WorkspaceSettings): WorkspaceBackup => ({
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  history,
+  settings
+});
+
+export const downloadBackup = (backup: WorkspaceBackup) => {
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `Earning_Analyst_backup_${new Date(backup.exportedAt).toISOString().split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Each step upgrades a backup from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, (backup: unknown) => unknown> = {
+  // Version 0 is the bare history array older builds kept in localStorage
+  0: (history) => ({ version: 1, exportedAt: Date.now(), history, settings: {} })
+};
+
+const invalid = (what: string) => new BackupFormatError(`Tệp sao lưu chứa ${what} không hợp lệ.`);
+
+const normalizeVideo = (v: unknown): VideoEarning => {
+  if (!isRecord(v) || typeof v.title !== 'string' || typeof v.label !== 'string' || !isFiniteNumber(v.totalEarning)) {
+    throw invalid("video");
+  }
+  return { ...v, title: v.title, label: v.label, totalEarning: v.totalEarning, hashtags: stringList(v.hashtags) };
+};
+
+const normalizeLabelSummary = (l: unknown): LabelSummary => {
+  if (!isRecord(l) || typeof l.label !== 'string' || !isFiniteNumber(l.totalEarning) || !isFiniteNumber(l.videoCount)) {
+    throw invalid("nhãn");
+  }
+  return { label: l.label, totalEarning: l.totalEarning, videoCount: l.videoCount };
+};
+
+/**
+ * Checks the fields every analysis has had since the first build and fills in
+ * the ones added to AnalysisResult later. Optional fields are kept as saved;
+ * the UI reads them guarded.
+ */
+const normalizeAnalysis = (item: unknown): AnalysisResult => {
+  if (
+    !isRecord(item) || typeof item.id !== 'string' || !isFiniteNumber(item.timestamp) || !isFiniteNumber(item.grandTotal) ||
+    !Array.isArray(item.videoEarnings) || !Array.isArray(item.labelSummaries)
+  ) {
+    throw invalid("phân tích");
+  }
+  return {
+    ...item,
+    id: item.id,
+    fileName: nonEmptyString(item.fileName) || "Không rõ tệp",
+    timestamp: item.timestamp,
+    grandTotal: item.grandTotal,
+    lowEarningCount: isFiniteNumber(item.lowEarningCount) ? item.lowEarningCount : 0,
+    allHashtags: stringList(item.allHashtags),
+    missingColumns: stringList(item.missingColumns),
+    videoEarnings: item.videoEarnings.map(normalizeVideo),
+    labelSummaries: item.labelSummaries.map(normalizeLabelSummary)
+  };
+};
+
+const DEFAULT_SETTINGS: WorkspaceSettings = {
+  exchangeRate: 25400,
+  bonusPercentage: 5,
+  bonusRules: [],
+  columnPresets: [],
+  editors: [],
+  exchangeRates: [],
+  rateBasis: 'videoDate',
+  currencyRates: {},
+  lowEarningThreshold: DEFAULT_LOW_EARNING_THRESHOLD,
+  earningTiers: DEFAULT_EARNING_TIERS
+};
+
+const versionOf = (raw: unknown) => Array.isArray(raw) ? 0 : isRecord(raw) ? raw.version : undefined;
+
+export const parseBackup = (text: string): WorkspaceBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new BackupFormatError("Tệp sao lưu không phải JSON hợp lệ.");
+  }
+
+  const detected = versionOf(raw);
+  if (typeof detected !== 'number' || !Number.isInteger(detected) || detected < 0) {
+    throw new BackupFormatError("Không nhận diện được tệp sao lưu.");
+  }
+  let version: number = detected;
+  if (version > BACKUP_VERSION) {
+    throw new BackupFormatError("Tệp sao lưu được tạo bởi phiên bản mới hơn. Vui lòng cập nhật ứng dụng.");
+  }
+  while (version < BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new BackupFormatError(`Không hỗ trợ tệp sao lưu phiên bản ${version}.`);
+    raw = migrate(raw);
+    const next = versionOf(raw);
+    if (typeof next !== 'number' || next <= version) throw new BackupFormatError("Không nâng cấp được tệp sao lưu.");
+    version = next;
+  }
+
+  if (!isRecord(raw) || !Array.isArray(raw.history)) throw new BackupFormatError("Tệp sao lưu không có lịch sử phân tích.");
+  const settings = isRecord(raw.settings) ? raw.settings as Partial<WorkspaceSettings> : {};
+  return {
+    version,
+    exportedAt: Number(raw.exportedAt) || Date.now(),
+    history: raw.history.map(normalizeAnalysis),
+    settings: { ...DEFAULT_SETTINGS, ...settings }
+  };
+};
+
+const unionById = <T extends { id: string }>(existing: T[], incoming: T[]) => {
+  const ids = new Set(existing.map(item => item.id));
+  return [...existing, ...incoming.filter(item => !ids.has(item.id))];
+};
+
+/**
+ * Merging keeps the newer copy of an analysis present on both sides; replacing
+ * drops the rest of the workspace. In both modes locked periods stay as they
+ * are, and every analysis the restore touches gets an audit entry.
+ * `skippedLocked` lists the locked periods the backup had another copy of.
+ */
+export const restoreHistory = (existing: AnalysisResult[], incoming: AnalysisResult[], mode: BackupRestoreMode) => {
+  const kept = mode === 'replace' ? existing.filter(item => item.payoutLock) : existing;
+  const byId = new Map<string, AnalysisResult>(kept.map(item => [item.id, item]));
+  const skippedLocked: string[] = [];
+  incoming.forEach(item => {
+    const current = existing.find(e => e.id === item.id);
+    if (mode === 'merge' && current && item.timestamp <= current.timestamp) return;
+    if (current?.payoutLock) {
+      skippedLocked.push(current.id);
+      byId.set(current.id, recordRestoreSkipped(current));
+    } else {
+      byId.set(item.id, recordRestore(item, current));
+    }
+  });
+  const history = Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp);
+  return { history, skippedLocked };
+};
+
+// Merging keeps the current exchange rate and bonus % and only adds missing rules, presets, editors and rates
+export const restoreSettings = (existing: WorkspaceSettings, incoming: WorkspaceSettings, mode: BackupRestoreMode): WorkspaceSettings => {
+  if (mode === 'replace') return incoming;
+  return {
+    ...existing,
+    bonusRules: unionById(existing.bonusRules, incoming.bonusRules),
+    columnPresets: unionById(existing.columnPresets, incoming.columnPresets),
+    editors: unionById(existing.editors || [], incoming.editors || []),
+    // Periods already in the workspace keep their current rate
+    exchangeRates: upsertRates(incoming.exchangeRates || [], existing.exchangeRates || []),
+    currencyRates: { ...incoming.currencyRates, ...existing.currencyRates }
+  };
+};
@@ -0,0 +1,129 @@
+import { BonusRule, BonusTier, LabelPayout, LabelSummary, PayoutLine, VideoEarning } from "../types";
+
+export const DEFAULT_RULE_ID = 'default';
+
+const appliesTo = (rule: BonusRule, label: string) => rule.labels.length === 0 || rule.labels.includes(label);
+
+// Tiers are marginal: each rate only applies to the slice of earnings inside its bracket
+export const applyTiers = (amount: number, tiers: BonusTier[]) => {
+  const sorted = [...tiers].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  let lower = 0;
+  let bonus = 0;
+  for (const tier of sorted) {
+    const upper = tier.upTo ?? Infinity;
+    if (amount <= lower) break;
+    bonus += (Math.min(amount, upper) - lower) * (tier.rate / 100);
+    lower = upper;
+  }
+  return bonus;
+};
+
+export const describeTiers = (tiers: BonusTier[]) =>
+  [...tiers]
+    .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity))
+    .map(t => t.upTo !== null ? `${t.rate}% đến $${t.upTo}` : `${t.rate}% phần trên`)
+    .join(', ');
+
+/**
+ * Computes a label's payout from the rule set. A label-specific rate rule
+ * (percentage or tiered) replaces the global ones; per-video bonuses are added
+ * on top and the minimum floor is applied last.
+ */
+export const computeLabelPayout = (
+  summary: LabelSummary,
+  videos: VideoEarning[],
+  rules: BonusRule[],
+  defaultPercentage: number
+): LabelPayout => {
+  const lines: PayoutLine[] = [];
+  const matching = rules.filter(r => appliesTo(r, summary.label));
+
+  const rateRules = matching.filter(r => r.type === 'percentage' || r.type === 'tiered');
+  const specificRateRules = rateRules.filter(r => r.labels.length > 0);
+  const effectiveRateRules = specificRateRules.length > 0 ? specificRateRules : rateRules;
+
+  if (effectiveRateRules.length === 0) {
+    lines.push({
+      ruleId: DEFAULT_RULE_ID,
+      ruleName: 'Mặc định',
+      description: `${defaultPercentage}% doanh thu`,
+      amount: summary.totalEarning * (defaultPercentage / 100)
+    });
+  }
+
+  effectiveRateRules.forEach(rule => {
+    if (rule.type === 'tiered') {
+      const tiers = rule.tiers || [];
+      lines.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        description: describeTiers(tiers),
+        amount: applyTiers(summary.totalEarning, tiers)
+      });
+    } else {
+      const rate = rule.rate || 0;
+      lines.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        description: `${rate}% doanh thu`,
+        amount: summary.totalEarning * (rate / 100)
+      });
+    }
+  });
+
+  matching.filter(r => r.type === 'perVideo').forEach(rule => {
+    const threshold = rule.minVideoEarning || 0;
+    const qualifying = videos.filter(v => v.label === summary.label && v.totalEarning > threshold).length;
+    if (qualifying === 0) return;
+    lines.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      description: `${qualifying} video > $${threshold} × $${rule.perVideoAmount || 0}`,
+      amount: qualifying * (rule.perVideoAmount || 0)
+    });
+  });
+
+  let bonus = lines.reduce((acc, l) => acc + l.amount, 0);
+
+  matching.filter(r => r.type === 'minimum').forEach(rule => {
+    const floor = rule.minimumPayout || 0;
+    if (bonus < floor) {
+      lines.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        description: `Bù lên mức tối thiểu $${floor}`,
+        amount: floor - bonus
+      });
+      bonus = floor;
+    }
+  });
+
+  return {
+    label: summary.label,
+    totalEarning: summary.totalEarning,
+    videoCount: summary.videoCount,
+    bonus,
+    lines
+  };
+};
+
+export const computePayouts = (
+  labelSummaries: LabelSummary[],
+  videos: VideoEarning[],
+  rules: BonusRule[],
+  defaultPercentage: number
+): LabelPayout[] => labelSummaries.map(summary => computeLabelPayout(summary, videos, rules, defaultPercentage));
+
+export const createRule = (type: BonusRule['type']): BonusRule => {
+  const base = { id: crypto.randomUUID(), labels: [] as string[], type };
+  switch (type) {
+    case 'tiered':
+      return { ...base, name: 'Bậc thang', tiers: [{ upTo: 500, rate: 5 }, { upTo: null, rate: 8 }] };
+    case 'perVideo':
+      return { ...base, name: 'Thưởng theo video', perVideoAmount: 1, minVideoEarning: 10 };
+    case 'minimum':
+      return { ...base, name: 'Mức tối thiểu', minimumPayout: 10 };
+    default:
+      return { ...base, name: 'Tỉ lệ cố định', rate: 5 };
+  }
+};
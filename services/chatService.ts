@@ -0,0 +1,40 @@
+import { AIProviderConfig, ChatContext, ChatMessage, ChatTurnResult } from "../types";
+import { CHAT_TOOLS, runChatTool } from "./chatToolsService";
+import { buildChatSystemPrompt } from "./insightPromptService";
+import { providerFor } from "./insightService";
+
+// A question rarely needs more than a couple of lookups; this stops runaway loops
+const MAX_TOOL_ROUNDS = 6;
+
+export const createChatMessage = (role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: crypto.randomUUID(),
+  role,
+  content,
+  timestamp: Date.now(),
+  ...extra
+});
+
+/**
+ * Sends the conversation to the provider and answers its tool calls against
+ * `context` until it replies in text. Returns only the messages added in this
+ * turn, tool calls and results included, so they can be saved with the rest.
+ */
+export const runChatTurn = async (history: ChatMessage[], context: ChatContext, config: AIProviderConfig): Promise<ChatTurnResult> => {
+  const provider = providerFor(config.provider);
+  if (!provider.chat) return { ok: false, provider: config.provider, code: 'chatUnsupported' };
+
+  const systemPrompt = buildChatSystemPrompt(context);
+  const added: ChatMessage[] = [];
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const result = await provider.chat(systemPrompt, [...history, ...added], CHAT_TOOLS, config);
+    if (result.ok === false) return result;
+    added.push(result.message);
+    const calls = result.message.toolCalls || [];
+    if (calls.length === 0) return { ok: true, messages: added };
+    calls.forEach(call => {
+      const output = runChatTool(call.name, call.args, context);
+      added.push(createChatMessage('tool', JSON.stringify(output), { toolCallId: call.id, toolName: call.name }));
+    });
+  }
+  return { ok: false, provider: config.provider, code: 'tooManyToolCalls' };
+};
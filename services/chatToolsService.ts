@@ -0,0 +1,219 @@
+import { ChatContext, ChatToolDefinition, TrendGranularity, VideoEarning } from "../types";
+import { firstDateKey } from "./analyticsService";
+import { toPeriodKey } from "./timeSeriesService";
+import { findTier } from "./tierService";
+
+// Keeps tool results small enough to send back to the model
+const MAX_VIDEOS = 50;
+const MAX_GROUPS = 100;
+
+const FILTER_PROPERTIES = {
+  label: { type: 'string', description: 'Chỉ lấy video có nhãn này (khớp chính xác)' },
+  hashtag: { type: 'string', description: 'Chỉ lấy video có hashtag này, ví dụ #review' },
+  search: { type: 'string', description: 'Chuỗi cần có trong tiêu đề' },
+  periodFrom: { type: 'string', description: 'yyyy-mm-dd; chỉ tính thu nhập từ ngày này' },
+  periodTo: { type: 'string', description: 'yyyy-mm-dd; chỉ tính thu nhập đến hết ngày này' },
+  minEarning: { type: 'number', description: 'USD, tính trong khoảng ngày nếu có' },
+  maxEarning: { type: 'number', description: 'USD, loại trừ; tính trong khoảng ngày nếu có' }
+};
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    name: 'dataset_overview',
+    description: 'Tổng quan dữ liệu đang xem: số video, tổng thu nhập, khoảng ngày, danh sách nhãn và ngưỡng thu nhập thấp.',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'filter_videos',
+    description: 'Lọc video theo nhãn, hashtag, tiêu đề, khoảng ngày và mức thu nhập. Trả về số lượng, tổng và tối đa 50 video.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...FILTER_PROPERTIES,
+        sortBy: { type: 'string', enum: ['earning', 'date', 'title'] },
+        order: { type: 'string', enum: ['asc', 'desc'] },
+        limit: { type: 'number' }
+      }
+    }
+  },
+  {
+    name: 'aggregate',
+    description: 'Cộng thu nhập và đếm video theo nhóm (nhãn, hashtag, ngày, tuần, tháng hoặc mức thu nhập) sau khi lọc.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...FILTER_PROPERTIES,
+        groupBy: { type: 'string', enum: ['label', 'hashtag', 'day', 'week', 'month', 'tier'] }
+      },
+      required: ['groupBy']
+    }
+  },
+  {
+    name: 'top_videos',
+    description: 'N video thu nhập cao nhất hoặc thấp nhất sau khi lọc.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...FILTER_PROPERTIES,
+        n: { type: 'number' },
+        order: { type: 'string', enum: ['top', 'bottom'] }
+      },
+      required: ['n']
+    }
+  }
+];
+
+type ToolArgs = Record<string, unknown>;
+
+interface Match {
+  video: VideoEarning;
+  earning: number; // inside the requested period, or the total without one
+}
+
+const str = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Models occasionally send numbers as strings
+const num = (value: unknown) => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// Video counts the model asks for: a whole number from 1 to MAX_VIDEOS
+const count = (value: unknown, fallback: number) => {
+  const n = num(value);
+  return n === undefined ? fallback : Math.min(Math.max(Math.floor(n), 1), MAX_VIDEOS);
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const periodEarning = (video: VideoEarning, from?: string, to?: string) => {
+  if (!from && !to) return video.totalEarning;
+  return (video.dailyEarnings || [])
+    .filter(d => (!from || d.date >= from) && (!to || d.date <= to))
+    .reduce((acc, d) => acc + d.earning, 0);
+};
+
+const matchVideos = (videos: VideoEarning[], args: ToolArgs): Match[] => {
+  const label = str(args.label);
+  const hashtag = str(args.hashtag)?.toLowerCase();
+  const search = str(args.search)?.toLowerCase();
+  const from = str(args.periodFrom);
+  const to = str(args.periodTo);
+  const min = num(args.minEarning);
+  const max = num(args.maxEarning);
+
+  return videos
+    .filter(v => !label || v.label === label)
+    .filter(v => !hashtag || v.hashtags.some(t => t.toLowerCase() === hashtag))
+    .filter(v => !search || v.title.toLowerCase().includes(search))
+    .map(video => ({ video, earning: periodEarning(video, from, to) }))
+    .filter(m => (min === undefined || m.earning >= min) && (max === undefined || m.earning < max));
+};
+
+const describeVideo = ({ video, earning }: Match) => ({
+  title: video.title,
+  label: video.label,
+  assetId: video.assetId,
+  firstDate: firstDateKey(video) || video.date,
+  hashtags: video.hashtags,
+  earning: round(earning)
+});
+
+const summarizeMatches = (matches: Match[]) => ({
+  matchCount: matches.length,
+  totalEarning: round(matches.reduce((acc, m) => acc + m.earning, 0))
+});
+
+const groupMatches = (matches: Match[], args: ToolArgs, context: ChatContext) => {
+  const groupBy = str(args.groupBy) || 'label';
+  const groups = new Map<string, { videos: Set<VideoEarning>; totalEarning: number }>();
+  const add = (key: string, video: VideoEarning, earning: number) => {
+    const group = groups.get(key) || { videos: new Set<VideoEarning>(), totalEarning: 0 };
+    group.videos.add(video);
+    group.totalEarning += earning;
+    groups.set(key, group);
+  };
+
+  if (groupBy === 'day' || groupBy === 'week' || groupBy === 'month') {
+    const from = str(args.periodFrom);
+    const to = str(args.periodTo);
+    matches.forEach(({ video }) => {
+      video.dailyEarnings?.forEach(d => {
+        if ((from && d.date < from) || (to && d.date > to)) return;
+        add(toPeriodKey(d.date, groupBy as TrendGranularity), video, d.earning);
+      });
+    });
+  } else {
+    matches.forEach(({ video, earning }) => {
+      if (groupBy === 'hashtag') video.hashtags.forEach(tag => add(tag, video, earning));
+      else if (groupBy === 'tier') add(findTier(earning, context.tiers)?.name || '—', video, earning);
+      else add(video.label, video, earning);
+    });
+  }
+
+  const rows = Array.from(groups.entries()).map(([key, g]) => ({
+    key,
+    videoCount: g.videos.size,
+    totalEarning: round(g.totalEarning),
+    averageEarning: round(g.totalEarning / g.videos.size)
+  }));
+  const isTime = groupBy === 'day' || groupBy === 'week' || groupBy === 'month';
+  rows.sort((a, b) => isTime ? a.key.localeCompare(b.key) : b.totalEarning - a.totalEarning);
+  return { groupBy, groupCount: rows.length, groups: rows.slice(0, MAX_GROUPS) };
+};
+
+const overview = (context: ChatContext) => {
+  const dates = context.videos.flatMap(v => v.dailyEarnings?.map(d => d.date) || []).sort();
+  const labels = new Map<string, { videoCount: number; totalEarning: number }>();
+  context.videos.forEach(v => {
+    const entry = labels.get(v.label) || { videoCount: 0, totalEarning: 0 };
+    entry.videoCount++;
+    entry.totalEarning += v.totalEarning;
+    labels.set(v.label, entry);
+  });
+  return {
+    videoCount: context.videos.length,
+    totalEarning: round(context.videos.reduce((acc, v) => acc + v.totalEarning, 0)),
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+    lowEarningThreshold: context.lowEarningThreshold,
+    tiers: context.tiers.map(t => ({ name: t.name, upTo: t.upTo })),
+    labels: Array.from(labels.entries()).map(([label, l]) => ({ label, videoCount: l.videoCount, totalEarning: round(l.totalEarning) }))
+  };
+};
+
+/**
+ * Runs one tool call against the videos currently in view. Unknown tools and
+ * bad arguments come back as an `error` field so the model can retry.
+ */
+export const runChatTool = (name: string, args: ToolArgs, context: ChatContext): unknown => {
+  switch (name) {
+    case 'dataset_overview':
+      return overview(context);
+    case 'filter_videos': {
+      const matches = matchVideos(context.videos, args);
+      const sortBy = str(args.sortBy) || 'earning';
+      const direction = str(args.order) === 'asc' ? 1 : -1;
+      matches.sort((a, b) => {
+        if (sortBy === 'title') return direction * a.video.title.localeCompare(b.video.title, 'vi');
+        if (sortBy === 'date') return direction * (firstDateKey(a.video) || '').localeCompare(firstDateKey(b.video) || '');
+        return direction * (a.earning - b.earning);
+      });
+      const limit = count(args.limit, 20);
+      return { ...summarizeMatches(matches), videos: matches.slice(0, limit).map(describeVideo) };
+    }
+    case 'aggregate': {
+      const matches = matchVideos(context.videos, args);
+      return { ...summarizeMatches(matches), ...groupMatches(matches, args, context) };
+    }
+    case 'top_videos': {
+      const matches = matchVideos(context.videos, args);
+      const direction = str(args.order) === 'bottom' ? 1 : -1;
+      matches.sort((a, b) => direction * (a.earning - b.earning));
+      const n = count(args.n, 10);
+      return { ...summarizeMatches(matches), videos: matches.slice(0, n).map(describeVideo) };
+    }
+    default:
+      return { error: `Không có công cụ "${name}"` };
+  }
+};
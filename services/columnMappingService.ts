@@ -0,0 +1,54 @@
+import { ColumnField, ColumnMapping, ColumnPreset, RawCSVRow } from "../types";
+
+export const COLUMN_FIELDS: { field: ColumnField; label: string; required: boolean }[] = [
+  { field: 'title', label: 'Tiêu đề', required: true },
+  { field: 'earnings', label: 'Thu nhập', required: true },
+  { field: 'label', label: 'Nhãn tùy chỉnh', required: false },
+  { field: 'date', label: 'Ngày', required: false },
+  { field: 'assetId', label: 'Post ID / ID video', required: false },
+  { field: 'description', label: 'Mô tả', required: false }
+];
+
+// Header names of the Facebook Insights export, in VN and EN, plus the
+// "Chi tiết Video" sheet of our own Excel export so edited copies re-import
+export const KNOWN_COLUMNS: Record<ColumnField, string[]> = {
+  title: ["Tiêu đề", "Title"],
+  label: ["Nhãn tùy chỉnh", "Custom labels"],
+  earnings: ["Thu nhập ước tính khi tham gia chương trình kiếm tiền từ nội dung", "Approximate content monetization earnings", "Thu nhập ($)"],
+  date: ["Ngày", "Date"],
+  assetId: ["Post ID", "Video asset ID", "ID tài sản video"],
+  description: ["Description", "Mô tả", "Hashtags"]
+};
+
+export const detectMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  COLUMN_FIELDS.forEach(({ field }) => {
+    const match = KNOWN_COLUMNS[field].find(name => headers.includes(name));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+const presetFits = (preset: ColumnPreset, headers: string[]) =>
+  Object.values(preset.mapping).every(header => !header || headers.includes(header));
+
+/**
+ * Picks the mapping for a freshly parsed file: the first saved preset whose
+ * columns all exist in the file, otherwise whatever could be auto-detected.
+ */
+export const resolveMapping = (headers: string[], presets: ColumnPreset[]): { mapping: ColumnMapping; presetId?: string } => {
+  const detected = detectMapping(headers);
+  const preset = presets.find(p => presetFits(p, headers));
+  return preset ? { mapping: { ...detected, ...preset.mapping }, presetId: preset.id } : { mapping: detected };
+};
+
+export const isMappingComplete = (mapping: ColumnMapping) =>
+  COLUMN_FIELDS.every(({ field }) => !!mapping[field]);
+
+export const hasRequiredColumns = (mapping: ColumnMapping) =>
+  COLUMN_FIELDS.every(({ field, required }) => !required || !!mapping[field]);
+
+export const readField = (row: RawCSVRow, mapping: ColumnMapping, field: ColumnField) => {
+  const header = mapping[field];
+  return header ? row[header] : undefined;
+};
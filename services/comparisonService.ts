@@ -0,0 +1,63 @@
+import { AnalysisResult, InsightComparison, LabelSummary, MetricDelta, PeriodComparison } from "../types";
+import { videoIdentity } from "./analyticsService";
+import { isStructuredInsight } from "./insightSchemaService";
+
+const toDelta = (previous: number, current: number): MetricDelta => ({
+  previous,
+  current,
+  delta: current - previous,
+  percentChange: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+});
+
+const perVideo = (summary?: LabelSummary) =>
+  summary && summary.videoCount > 0 ? summary.totalEarning / summary.videoCount : 0;
+
+const compareInsights = (previous: AnalysisResult, current: AnalysisResult): InsightComparison | undefined => {
+  if (!isStructuredInsight(previous.aiInsight) || !isStructuredInsight(current.aiInsight)) return undefined;
+  const before = new Set(previous.aiInsight.underperformingLabels.map(n => n.label));
+  const after = new Set(current.aiInsight.underperformingLabels.map(n => n.label));
+  return {
+    previous: previous.aiInsight,
+    current: current.aiInsight,
+    newlyUnderperforming: Array.from(after).filter(label => !before.has(label)),
+    recovered: Array.from(before).filter(label => !after.has(label))
+  };
+};
+
+export const comparePeriods = (previous: AnalysisResult, current: AnalysisResult): PeriodComparison => {
+  const previousLabels = new Map(previous.labelSummaries.map(l => [l.label, l]));
+  const currentLabels = new Map(current.labelSummaries.map(l => [l.label, l]));
+  const allLabels = Array.from(new Set([...previousLabels.keys(), ...currentLabels.keys()]));
+
+  const labels = allLabels.map(label => {
+    const before = previousLabels.get(label);
+    const after = currentLabels.get(label);
+    return {
+      label,
+      totalEarning: toDelta(before?.totalEarning || 0, after?.totalEarning || 0),
+      videoCount: toDelta(before?.videoCount || 0, after?.videoCount || 0),
+      earningPerVideo: toDelta(perVideo(before), perVideo(after))
+    };
+  }).sort((a, b) => b.totalEarning.delta - a.totalEarning.delta);
+
+  const previousVideos = new Map(previous.videoEarnings.map(v => [videoIdentity(v), v]));
+  const commonVideos = current.videoEarnings
+    .filter(v => previousVideos.has(videoIdentity(v)))
+    .map(v => {
+      const before = previousVideos.get(videoIdentity(v))!;
+      return {
+        title: v.title,
+        label: v.label,
+        assetId: v.assetId,
+        totalEarning: toDelta(before.totalEarning, v.totalEarning)
+      };
+    })
+    .sort((a, b) => b.totalEarning.delta - a.totalEarning.delta);
+
+  return {
+    labels,
+    commonVideos,
+    grandTotal: toDelta(previous.grandTotal, current.grandTotal),
+    insights: compareInsights(previous, current)
+  };
+};
@@ -0,0 +1,35 @@
+import { CurrencyRates, PayoutCurrency } from "../types";
+
+export const CURRENCIES: { code: PayoutCurrency; label: string; locale: string }[] = [
+  { code: 'VND', label: 'Việt Nam Đồng', locale: 'vi-VN' },
+  { code: 'USD', label: 'Đô la Mỹ', locale: 'en-US' },
+  { code: 'THB', label: 'Baht Thái', locale: 'th-TH' },
+  { code: 'PHP', label: 'Peso Philippines', locale: 'en-PH' },
+  { code: 'EUR', label: 'Euro', locale: 'de-DE' }
+];
+
+export const DEFAULT_CURRENCY_RATES: CurrencyRates = { THB: 36, PHP: 56, EUR: 0.92 };
+
+const localeOf = (code: PayoutCurrency) => CURRENCIES.find(c => c.code === code)?.locale || 'en-US';
+
+/**
+ * Units of the currency per USD. VND uses the period rate passed in, USD is
+ * always 1, everything else reads the configured rate.
+ */
+export const rateFor = (code: PayoutCurrency, vndRate: number, rates: CurrencyRates) => {
+  if (code === 'VND') return vndRate;
+  if (code === 'USD') return 1;
+  return rates[code] ?? DEFAULT_CURRENCY_RATES[code] ?? 1;
+};
+
+export const formatCurrency = (amount: number, code: PayoutCurrency) =>
+  new Intl.NumberFormat(localeOf(code), { style: 'currency', currency: code }).format(amount);
+
+// Same rounding as formatCurrency but without the symbol, for spreadsheet cells
+export const formatAmount = (amount: number, code: PayoutCurrency) => {
+  const { maximumFractionDigits } = new Intl.NumberFormat(localeOf(code), { style: 'currency', currency: code }).resolvedOptions();
+  return new Intl.NumberFormat(localeOf(code), { minimumFractionDigits: maximumFractionDigits, maximumFractionDigits }).format(amount);
+};
+
+export const formatRate = (rate: number, code: PayoutCurrency) =>
+  `${rate.toLocaleString(localeOf(code), { maximumFractionDigits: rate >= 100 ? 0 : 4 })} ${code}/$`;
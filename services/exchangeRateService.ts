@@ -0,0 +1,125 @@
+import Papa from 'papaparse';
+import { ExchangeRateEntry, RateBasis, VideoEarning } from "../types";
+import { detectNumberLocale, parseNumber } from "./localeService";
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Normalises a rate table key to yyyy-mm or yyyy-mm-dd. Accepts ISO keys,
+ * mm/yyyy and dd/mm/yyyy, the forms Vietnamese bank exports use.
+ */
+export const normalizeRatePeriod = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  let m = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (m) return m[3] ? `${m[1]}-${pad(Number(m[2]))}-${pad(Number(m[3]))}` : `${m[1]}-${pad(Number(m[2]))}`;
+  m = text.match(/^(\d{1,2})[/.-](\d{4})$/);
+  if (m) return `${m[2]}-${pad(Number(m[1]))}`;
+  m = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (m) return `${m[3]}-${pad(Number(m[2]))}-${pad(Number(m[1]))}`;
+  return null;
+};
+
+// Later entries win over earlier ones for the same period
+export const upsertRates = (table: ExchangeRateEntry[], entries: ExchangeRateEntry[]) => {
+  const byPeriod = new Map<string, number>(table.map(e => [e.period, e.rate]));
+  entries.forEach(e => byPeriod.set(e.period, e.rate));
+  return Array.from(byPeriod, ([period, rate]) => ({ period, rate })).sort((a, b) => a.period.localeCompare(b.period));
+};
+
+/**
+ * Reads a two-column CSV (period, rate). Rows that do not parse, including a
+ * header row, are skipped and counted. A VND rate is never below 1000, which
+ * settles "25.400" vs "25,400" when the separators alone are ambiguous.
+ */
+export const parseRateTable = (text: string): { entries: ExchangeRateEntry[]; skipped: number } => {
+  const rows = Papa.parse<string[]>(text, { skipEmptyLines: true }).data;
+  const locale = detectNumberLocale(rows.map(r => r[1])) || 'en';
+  const other = locale === 'en' ? 'vi' : 'en';
+  const entries: ExchangeRateEntry[] = [];
+  let skipped = 0;
+  rows.forEach(([periodCell, rateCell]) => {
+    const period = normalizeRatePeriod(periodCell);
+    let rate = parseNumber(rateCell, locale);
+    if (rate !== null && rate < 1000) rate = parseNumber(rateCell, other);
+    if (!period || rate === null || rate < 1000) {
+      skipped++;
+      return;
+    }
+    entries.push({ period, rate });
+  });
+  return { entries, skipped };
+};
+
+/**
+ * Rate for a yyyy-mm-dd date: the day's own entry, then its month, then the
+ * closest earlier entry. Falls back to the default rate when nothing matches.
+ */
+export const findRate = (table: ExchangeRateEntry[], dateKey: string | undefined, fallback: number) => {
+  if (!dateKey) return fallback;
+  const month = dateKey.slice(0, 7);
+  const exact = table.find(e => e.period === dateKey) || table.find(e => e.period === month);
+  if (exact) return exact.rate;
+  const earlier = table.filter(e => e.period <= dateKey).sort((a, b) => b.period.localeCompare(a.period))[0];
+  return earlier ? earlier.rate : fallback;
+};
+
+export type RateResolver = (dateKey?: string) => number;
+
+export const createRateResolver = (
+  table: ExchangeRateEntry[],
+  basis: RateBasis,
+  payoutDate: string | undefined,
+  fallback: number
+): RateResolver => {
+  const payoutRate = findRate(table, payoutDate, fallback);
+  if (basis === 'payoutDate') return () => payoutRate;
+  const cache = new Map<string, number>();
+  return dateKey => {
+    if (!dateKey) return payoutRate;
+    if (!cache.has(dateKey)) cache.set(dateKey, findRate(table, dateKey, fallback));
+    return cache.get(dateKey)!;
+  };
+};
+
+/**
+ * Earnings-weighted rate over the videos' daily earnings, so a bonus that
+ * spans several months is converted at each month's rate in proportion to
+ * what was earned then.
+ */
+export const weightedRate = (videos: VideoEarning[], resolve: RateResolver) => {
+  let weighted = 0;
+  let weight = 0;
+  videos.forEach(video => {
+    if (video.dailyEarnings && video.dailyEarnings.length > 0) {
+      video.dailyEarnings.forEach(d => {
+        weighted += d.earning * resolve(d.date);
+        weight += d.earning;
+      });
+    } else {
+      weighted += video.totalEarning * resolve(undefined);
+      weight += video.totalEarning;
+    }
+  });
+  return weight > 0 ? weighted / weight : resolve(undefined);
+};
+
+export const computeLabelRates = (videos: VideoEarning[], resolve: RateResolver): Record<string, number> => {
+  const byLabel = new Map<string, VideoEarning[]>();
+  videos.forEach(v => {
+    if (!byLabel.has(v.label)) byLabel.set(v.label, []);
+    byLabel.get(v.label)!.push(v);
+  });
+  return Object.fromEntries(Array.from(byLabel, ([label, labelVideos]) => [label, weightedRate(labelVideos, resolve)]));
+};
+
+export const latestDateKey = (videos: VideoEarning[]) => {
+  let latest: string | undefined;
+  videos.forEach(v => v.dailyEarnings?.forEach(d => {
+    if (!latest || d.date > latest) latest = d.date;
+  }));
+  return latest;
+};
+
+export const describeRateSetup = (table: ExchangeRateEntry[], basis: RateBasis) =>
+  `${table.length} mốc tỷ giá, ${basis === 'videoDate' ? 'theo ngày video' : 'theo ngày thanh toán'}`;
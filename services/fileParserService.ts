@@ -0,0 +1,59 @@
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+import { RawCSVRow } from "../types";
+import { toDateKey } from "./timeSeriesService";
+
+export interface ParsedTable {
+  headers: string[];
+  rows: RawCSVRow[];
+}
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+export const ACCEPTED_FILE_TYPES = ['.csv', ...SPREADSHEET_EXTENSIONS].join(',');
+
+export const isSpreadsheetFile = (file: File) =>
+  SPREADSHEET_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+// Only a sample is read here for column and locale detection; the full file
+// is streamed by the analysis worker
+const PREVIEW_ROWS = 50;
+
+export const readCSVPreview = (file: File): Promise<ParsedTable> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse<RawCSVRow>(file, {
+      header: true,
+      preview: PREVIEW_ROWS,
+      skipEmptyLines: true,
+      complete: (results) => resolve({ headers: results.meta.fields || [], rows: results.data }),
+      error: reject
+    });
+  });
+};
+
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer();
+  return XLSX.read(buffer, { type: 'array', cellDates: true });
+};
+
+export const countSheetRows = (workbook: XLSX.WorkBook, sheetName: string) => {
+  const ref = workbook.Sheets[sheetName]?.['!ref'];
+  if (!ref) return 0;
+  const range = XLSX.utils.decode_range(ref);
+  return Math.max(range.e.r - range.s.r, 0);
+};
+
+// Date cells come back as Date objects; store them as yyyy-mm-dd like a CSV export would
+const normalizeCell = (value: unknown) => value instanceof Date ? toDateKey(value) : value;
+
+export const sheetToTable = (workbook: XLSX.WorkBook, sheetName: string): ParsedTable => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false });
+  const headers = headerRow.map(h => String(h ?? '').trim()).filter(Boolean);
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', blankrows: false })
+    .map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim(), normalizeCell(value)])) as RawCSVRow);
+
+  return { headers, rows };
+};
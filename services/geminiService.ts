@@ -1,33 +1,89 @@
+import { Content, GoogleGenAI, Part } from "@google/genai";
+import { AIProviderConfig, ChatMessage, InsightProvider } from "../types";
+import { buildInsightPrompt } from "./insightPromptService";
+import { INSIGHT_JSON_SCHEMA, parseInsightJson } from "./insightSchemaService";
 
-import { GoogleGenAI } from "@google/genai";
-import { AnalysisResult } from "../types";
+const resolveApiKey = (config: AIProviderConfig) => config.apiKey || process.env.API_KEY;
 
-export const getAIInsights = async (data: AnalysisResult, bonusPercentage: number): Promise<string> => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = `
-      Dưới đây là dữ liệu thu nhập từ nội dung video:
-      - Tổng thu nhập toàn bộ: ${data.grandTotal.toFixed(2)} USD
-      - Tỉ lệ tính bonus hiện tại: ${bonusPercentage}%
-      - Tổng số video: ${data.videoEarnings.length}
-      - Số video có thu nhập thấp (dưới 1 USD): ${data.lowEarningCount}
-      - Tóm tắt theo nhãn tùy chỉnh:
-      ${data.labelSummaries.map(s => `+ Nhãn "${s.label}": ${s.totalEarning.toFixed(2)} USD (${s.videoCount} video)`).join('\n')}
-      
-      Hãy phân tích ngắn gọn kết quả này. Chỉ ra nhãn nào hiệu quả nhất. 
-      Đặc biệt nhận xét về tỉ lệ video thu nhập thấp (${data.lowEarningCount}/${data.videoEarnings.length}) và đưa ra lời khuyên có nên tiếp tục sản xuất nội dung theo các nhãn đó không. 
-      Đưa ra 2-3 lời khuyên để tối ưu hóa thu nhập và Bonus ${bonusPercentage}%. 
-      Viết bằng tiếng Việt, giọng điệu chuyên nghiệp, súc tích.
-    `;
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
+// Gemini wants consecutive tool results in one user turn
+const toContents = (messages: ChatMessage[]): Content[] => {
+  const contents: Content[] = [];
+  messages.forEach(message => {
+    if (message.role === 'tool') {
+      const part: Part = {
+        functionResponse: { id: message.toolCallId, name: message.toolName, response: { result: JSON.parse(message.content) } }
+      };
+      const last = contents[contents.length - 1];
+      if (last?.role === 'user' && last.parts?.every(p => p.functionResponse)) last.parts.push(part);
+      else contents.push({ role: 'user', parts: [part] });
+      return;
+    }
+    if (message.role === 'assistant') {
+      const parts: Part[] = message.content ? [{ text: message.content }] : [];
+      message.toolCalls?.forEach(call => parts.push({
+        functionCall: { id: call.id, name: call.name, args: call.args },
+        ...(call.signature ? { thoughtSignature: call.signature } : {})
+      }));
+      contents.push({ role: 'model', parts });
+      return;
+    }
+    contents.push({ role: 'user', parts: [{ text: message.content }] });
+  });
+  return contents;
+};
 
-    return response.text || "Không thể tạo phân tích lúc này.";
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "Đã xảy ra lỗi khi kết nối với trí tuệ nhân tạo để phân tích dữ liệu.";
+export const geminiProvider: InsightProvider = {
+  id: 'gemini',
+  generate: async (request, config) => {
+    const apiKey = resolveApiKey(config);
+    if (!apiKey) return { ok: false, provider: 'gemini', code: 'missingApiKey' };
+    try {
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: buildInsightPrompt(request),
+        config: { responseMimeType: 'application/json', responseJsonSchema: INSIGHT_JSON_SCHEMA },
+      });
+      if (!response.text) return { ok: false, provider: 'gemini', code: 'emptyResponse' };
+      const insight = parseInsightJson(response.text, 'gemini', config.model);
+      if (!insight) return { ok: false, provider: 'gemini', code: 'invalidResponse', detail: response.text.slice(0, 200) };
+      return { ok: true, insight };
+    } catch (error) {
+      console.error("Gemini Error:", error);
+      return { ok: false, provider: 'gemini', code: 'requestFailed', detail: describeError(error) };
+    }
+  },
+  chat: async (systemPrompt, messages, tools, config) => {
+    const apiKey = resolveApiKey(config);
+    if (!apiKey) return { ok: false, provider: 'gemini', code: 'missingApiKey' };
+    try {
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: toContents(messages),
+        config: {
+          systemInstruction: systemPrompt,
+          tools: [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+        },
+      });
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      const content = parts.map(p => p.text || '').join('').trim();
+      const toolCalls = parts.filter(p => p.functionCall).map(p => ({
+        id: p.functionCall!.id || crypto.randomUUID(),
+        name: p.functionCall!.name || '',
+        args: p.functionCall!.args || {},
+        ...(p.thoughtSignature ? { signature: p.thoughtSignature } : {})
+      }));
+      if (!content && toolCalls.length === 0) return { ok: false, provider: 'gemini', code: 'emptyResponse' };
+      return {
+        ok: true,
+        message: { id: crypto.randomUUID(), role: 'assistant', content, timestamp: Date.now(), ...(toolCalls.length > 0 ? { toolCalls } : {}) }
+      };
+    } catch (error) {
+      console.error("Gemini Error:", error);
+      return { ok: false, provider: 'gemini', code: 'requestFailed', detail: describeError(error) };
+    }
   }
 };
@@ -0,0 +1,87 @@
+import { ChatContext, InsightLanguage, InsightRequest, TrendGranularity, VideoEarning } from "../types";
+import { firstDateKey } from "./analyticsService";
+import { buildTrendSeries } from "./timeSeriesService";
+import { describeTierRange } from "./tierService";
+import { INSIGHT_JSON_SCHEMA } from "./insightSchemaService";
+
+// Bounds what goes into the prompt regardless of how many videos are loaded
+const SAMPLE_SIZE = 10;
+const MAX_TREND_POINTS = 24;
+const MAX_TITLE_LENGTH = 100;
+
+const LANGUAGE_INSTRUCTIONS: Record<InsightLanguage, string> = {
+  vi: "Nội dung viết bằng tiếng Việt, giọng điệu chuyên nghiệp, súc tích.",
+  en: "Viết toàn bộ nội dung văn bản trong JSON bằng tiếng Anh (English), giọng điệu chuyên nghiệp, súc tích."
+};
+
+const describeVideo = (video: VideoEarning) => {
+  const title = video.title.length > MAX_TITLE_LENGTH ? `${video.title.slice(0, MAX_TITLE_LENGTH)}…` : video.title;
+  const hashtags = video.hashtags.length > 0 ? ` ${video.hashtags.join(' ')}` : '';
+  const date = firstDateKey(video) || video.date;
+  return `+ "${title}" [${video.label}]${hashtags}: ${video.totalEarning.toFixed(2)} USD${date ? `, từ ${date}` : ''}`;
+};
+
+// Highest and lowest earners; small sets are sent whole
+const sampleVideos = (videos: VideoEarning[]) => {
+  const sorted = [...videos].sort((a, b) => b.totalEarning - a.totalEarning);
+  if (sorted.length <= SAMPLE_SIZE * 2) return { top: sorted, bottom: [] as VideoEarning[] };
+  return { top: sorted.slice(0, SAMPLE_SIZE), bottom: sorted.slice(-SAMPLE_SIZE).reverse() };
+};
+
+// Picks the finest granularity that still fits, then keeps the latest periods
+const describeTrend = (videos: VideoEarning[]) => {
+  const granularity = (['day', 'week', 'month'] as TrendGranularity[])
+    .find(g => buildTrendSeries(videos, g).length <= MAX_TREND_POINTS) || 'month';
+  const series = buildTrendSeries(videos, granularity).slice(-MAX_TREND_POINTS);
+  return {
+    granularity,
+    lines: series.map(p => `+ ${p.period}: ${p.total.toFixed(2)} USD`)
+  };
+};
+
+const GRANULARITY_NAMES: Record<TrendGranularity, string> = { day: 'ngày', week: 'tuần (ngày thứ Hai đầu tuần)', month: 'tháng' };
+
+// Shared by every model-backed provider so they all see the same facts
+export const buildInsightPrompt = ({ data, filters, bonusPercentage, tiers, lowEarningThreshold, language }: InsightRequest) => {
+  const lowEarningCount = data.videoEarnings.filter(v => v.totalEarning < lowEarningThreshold).length;
+  const sample = sampleVideos(data.videoEarnings);
+  const trend = describeTrend(data.videoEarnings);
+  return `
+      Dưới đây là dữ liệu thu nhập từ nội dung video${data.startDate ? ` trong kỳ ${data.startDate} - ${data.endDate}` : ''}.
+      Dữ liệu đã được lọc theo: ${filters}.
+      - Tổng thu nhập: ${data.grandTotal.toFixed(2)} USD
+      - Tỉ lệ tính bonus hiện tại: ${bonusPercentage}%
+      - Tổng số video: ${data.videoEarnings.length}
+      - Số video có thu nhập thấp (dưới ${lowEarningThreshold} USD): ${lowEarningCount}
+      - Phân tầng thu nhập mỗi video:
+      ${tiers.map(t => `+ ${t.tier.name} (${describeTierRange(t)}): ${t.videoCount} video, ${t.totalEarning.toFixed(2)} USD`).join('\n')}
+      - Tóm tắt theo nhãn tùy chỉnh:
+      ${data.labelSummaries.map(s => `+ Nhãn "${s.label}": ${s.totalEarning.toFixed(2)} USD (${s.videoCount} video)`).join('\n')}
+      - Xu hướng thu nhập theo ${GRANULARITY_NAMES[trend.granularity]}:
+      ${trend.lines.join('\n') || '+ Không có dữ liệu theo ngày'}
+      - ${sample.bottom.length > 0 ? `${sample.top.length} video thu nhập cao nhất` : 'Tất cả video'} (tiêu đề [nhãn] hashtag: thu nhập, ngày đầu tiên có thu nhập):
+      ${sample.top.map(describeVideo).join('\n')}
+      ${sample.bottom.length > 0 ? `- ${sample.bottom.length} video thu nhập thấp nhất:\n      ${sample.bottom.map(describeVideo).join('\n')}` : ''}
+
+      Hãy phân tích ngắn gọn kết quả này và trả lời DUY NHẤT bằng một đối tượng JSON theo lược đồ sau:
+      ${JSON.stringify(INSIGHT_JSON_SCHEMA)}
+      - "summary": nhận xét tổng quan, nêu xu hướng theo thời gian và điểm chung về tiêu đề/hashtag của video tốt và kém.
+      - "topLabel": nhãn hiệu quả nhất và lý do.
+      - "underperformingLabels": các nhãn kém hiệu quả, có nên tiếp tục sản xuất hay không.
+      - "recommendations": 2-3 lời khuyên để tối ưu hóa thu nhập và Bonus ${bonusPercentage}%, kèm mức ưu tiên high/medium/low; dẫn chứng bằng video cụ thể khi có thể.
+      - "lowEarningRisk": đánh giá rủi ro từ tỉ lệ video thu nhập thấp (${lowEarningCount}/${data.videoEarnings.length}) và sự phân bố giữa các tầng thu nhập.
+      Tên nhãn phải chép nguyên văn từ dữ liệu trên. ${LANGUAGE_INSTRUCTIONS[language]}
+    `;
+};
+
+// Only the shape of the data goes into the prompt; numbers come from tool calls
+export const buildChatSystemPrompt = ({ videos, lowEarningThreshold, language }: ChatContext) => {
+  const labels = Array.from(new Set(videos.map(v => v.label)));
+  return [
+    "Bạn là trợ lý phân tích thu nhập video. Người dùng đang xem một tập video đã lọc.",
+    `Có ${videos.length} video thuộc ${labels.length} nhãn: ${labels.slice(0, 50).map(l => `"${l}"`).join(', ')}${labels.length > 50 ? ', ...' : ''}.`,
+    `Video có thu nhập dưới ${lowEarningThreshold} USD được coi là thu nhập thấp. Ngày có dạng yyyy-mm-dd.`,
+    "Luôn gọi công cụ để lấy số liệu trước khi trả lời, không tự suy đoán con số. Dùng dataset_overview nếu cần biết khoảng ngày.",
+    `${language === 'en' ? "Trả lời bằng tiếng Anh (English)" : "Trả lời bằng tiếng Việt"}, ngắn gọn, nêu rõ số liệu (USD) và tiêu đề video khi liên quan.`
+  ].join('\n');
+};
@@ -0,0 +1,110 @@
+import { AIProviderId, AnalysisResult, InsightLabelNote, InsightPriority, InsightRecommendation, StructuredInsight } from "../types";
+import { isRecord, nonEmptyString } from "./jsonService";
+
+export const INSIGHT_PRIORITY_LABELS: Record<InsightPriority, string> = {
+  high: 'Cao',
+  medium: 'Trung bình',
+  low: 'Thấp'
+};
+
+const PRIORITIES: InsightPriority[] = ['high', 'medium', 'low'];
+
+const labelNoteSchema = {
+  type: 'object',
+  properties: {
+    label: { type: 'string', description: 'Tên nhãn, chép nguyên văn từ dữ liệu' },
+    reason: { type: 'string' }
+  },
+  required: ['label', 'reason']
+};
+
+// Plain JSON Schema; Gemini and OpenAI-compatible servers both accept it
+export const INSIGHT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Nhận xét tổng quan 2-3 câu' },
+    topLabel: labelNoteSchema,
+    underperformingLabels: { type: 'array', items: labelNoteSchema },
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          priority: { type: 'string', enum: PRIORITIES },
+          text: { type: 'string' },
+          label: { type: 'string', description: 'Nhãn liên quan, nếu có' }
+        },
+        required: ['priority', 'text']
+      }
+    },
+    lowEarningRisk: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: PRIORITIES },
+        note: { type: 'string' }
+      },
+      required: ['level', 'note']
+    }
+  },
+  required: ['summary', 'topLabel', 'underperformingLabels', 'recommendations', 'lowEarningRisk']
+};
+
+const toPriority = (value: unknown): InsightPriority =>
+  PRIORITIES.includes(value as InsightPriority) ? value as InsightPriority : 'medium';
+
+const toLabelNote = (value: unknown): InsightLabelNote | null => {
+  if (!isRecord(value)) return null;
+  const label = nonEmptyString(value.label);
+  return label ? { label, reason: typeof value.reason === 'string' ? value.reason : '' } : null;
+};
+
+const toRecommendation = (value: unknown): InsightRecommendation | null => {
+  if (!isRecord(value)) return null;
+  const text = nonEmptyString(value.text);
+  if (!text) return null;
+  const label = nonEmptyString(value.label);
+  return { priority: toPriority(value.priority), text, ...(label ? { label } : {}) };
+};
+
+const listOf = <T>(value: unknown, read: (item: unknown) => T | null): T[] =>
+  (Array.isArray(value) ? value : []).map(read).filter((item): item is T => item !== null);
+
+/**
+ * Reads a model reply into a StructuredInsight. Local models do not always
+ * honour the schema, so code fences are stripped and missing or malformed
+ * parts are dropped instead of failing the whole reply. Returns null when
+ * there is no usable summary.
+ */
+export const parseInsightJson = (text: string, provider: AIProviderId, model?: string): StructuredInsight | null => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return null;
+  }
+  if (!isRecord(raw)) return null;
+  const summary = nonEmptyString(raw.summary);
+  if (!summary) return null;
+  const risk = isRecord(raw.lowEarningRisk) ? raw.lowEarningRisk : {};
+
+  return {
+    summary,
+    topLabel: toLabelNote(raw.topLabel),
+    underperformingLabels: listOf(raw.underperformingLabels, toLabelNote),
+    recommendations: listOf(raw.recommendations, toRecommendation),
+    lowEarningRisk: {
+      level: toPriority(risk.level),
+      note: typeof risk.note === 'string' ? risk.note : ''
+    },
+    provider,
+    model,
+    generatedAt: Date.now()
+  };
+};
+
+export const isStructuredInsight = (value: AnalysisResult['aiInsight']): value is StructuredInsight =>
+  typeof value === 'object' && value !== null;
+
+export const sortRecommendations = (recommendations: InsightRecommendation[]) =>
+  [...recommendations].sort((a, b) => PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority));
@@ -0,0 +1,55 @@
+import { AIProviderConfig, AIProviderId, InsightErrorCode, InsightLanguage, InsightProvider, InsightRequest, InsightResult } from "../types";
+import { geminiProvider } from "./geminiService";
+import { openAICompatibleProvider } from "./openAICompatibleService";
+import { ruleBasedProvider } from "./ruleBasedInsightService";
+
+export const AI_PROVIDERS: { id: AIProviderId; label: string; defaultModel: string; defaultBaseUrl?: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-3-flash-preview' },
+  { id: 'openai', label: 'OpenAI-compatible (Ollama, llama.cpp...)', defaultModel: 'llama3.1', defaultBaseUrl: 'http://localhost:11434/v1' },
+  { id: 'rules', label: 'Tóm tắt theo quy tắc (offline)', defaultModel: '' }
+];
+
+export const DEFAULT_AI_CONFIG: AIProviderConfig = { provider: 'gemini', model: 'gemini-3-flash-preview' };
+
+export const INSIGHT_LANGUAGES: { id: InsightLanguage; label: string }[] = [
+  { id: 'vi', label: 'Tiếng Việt' },
+  { id: 'en', label: 'English' }
+];
+
+export const DEFAULT_INSIGHT_LANGUAGE: InsightLanguage = 'vi';
+
+export const INSIGHT_ERROR_MESSAGES: Record<InsightErrorCode, string> = {
+  missingApiKey: 'Chưa có khóa API cho nhà cung cấp này.',
+  missingEndpoint: 'Chưa nhập địa chỉ máy chủ AI.',
+  unreachable: 'Không kết nối được tới máy chủ AI.',
+  requestFailed: 'Máy chủ AI trả về lỗi.',
+  emptyResponse: 'AI không trả về nội dung.',
+  invalidResponse: 'Phản hồi của AI không đúng định dạng yêu cầu.',
+  chatUnsupported: 'Nhà cung cấp này không hỗ trợ trò chuyện. Hãy chọn Gemini hoặc máy chủ OpenAI-compatible.',
+  tooManyToolCalls: 'AI tra cứu quá nhiều lần mà chưa trả lời. Hãy hỏi cụ thể hơn.'
+};
+
+const PROVIDERS: Record<AIProviderId, InsightProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+  rules: ruleBasedProvider
+};
+
+export const providerFor = (id: AIProviderId) => PROVIDERS[id];
+
+export const providerLabel = (id: AIProviderId) => AI_PROVIDERS.find(p => p.id === id)?.label || id;
+
+// Switching provider starts from that provider's defaults so a key never leaks to another endpoint
+export const configForProvider = (id: AIProviderId): AIProviderConfig => {
+  const meta = AI_PROVIDERS.find(p => p.id === id);
+  return { provider: id, model: meta?.defaultModel || '', baseUrl: meta?.defaultBaseUrl };
+};
+
+export const generateInsight = async (request: InsightRequest, config: AIProviderConfig): Promise<InsightResult> => {
+  try {
+    return await PROVIDERS[config.provider].generate(request, config);
+  } catch (error) {
+    console.error("Insight provider failed", error);
+    return { ok: false, provider: config.provider, code: 'requestFailed', detail: error instanceof Error ? error.message : String(error) };
+  }
+};
@@ -0,0 +1,137 @@
+import { ColumnMapping, DateFormat, NumberLocale, ParseSettings, RawCSVRow } from "../types";
+import { readField } from "./columnMappingService";
+
+const CURRENCY_PATTERN = /[$€£¥₫đ]|usd|vnd|thb|php|eur/gi;
+
+const stripCurrency = (value: string) => value.replace(CURRENCY_PATTERN, '').replace(/[\s ]/g, '');
+
+/**
+ * Parses a money/number cell for the given locale. Returns null (instead of 0)
+ * when the text is not a number so the caller can report it.
+ */
+export const parseNumber = (value: unknown, locale: NumberLocale): number | null => {
+  if (value === undefined || value === null || value === '') return 0;
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = stripCurrency(value);
+  if (text === '' || text === '-') return 0;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  text = locale === 'vi'
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const parsed = parseFloat(text);
+  return negative ? -parsed : parsed;
+};
+
+/**
+ * Guesses the separator convention from sample values. Only unambiguous
+ * samples count as evidence; "1,234" or "1.234" alone could be either.
+ */
+export const detectNumberLocale = (samples: unknown[]): NumberLocale | null => {
+  let en = 0;
+  let vi = 0;
+  samples.forEach(sample => {
+    if (typeof sample !== 'string') return;
+    const text = stripCurrency(sample);
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma >= 0 && lastDot >= 0) {
+      if (lastComma > lastDot) vi++; else en++;
+    } else if (lastComma >= 0) {
+      const decimals = text.length - lastComma - 1;
+      if (text.split(',').length > 2) en++;
+      else if (decimals !== 3) vi++;
+    } else if (lastDot >= 0) {
+      const decimals = text.length - lastDot - 1;
+      if (text.split('.').length > 2) vi++;
+      else if (decimals !== 3) en++;
+    }
+  });
+  if (en === 0 && vi === 0) return null;
+  return vi > en ? 'vi' : 'en';
+};
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})/;
+const SLASH_DATE = /^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2}|\d{4})(?!\d)/;
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  // Reject overflow such as 31/02 rolling into March
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+};
+
+/**
+ * Parses a date cell as a local calendar date. ISO dates are always accepted;
+ * the format only decides how dd/mm vs mm/dd strings are read.
+ */
+export const parseDate = (value: unknown, format: DateFormat): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const text = value.trim();
+
+  const iso = text.match(ISO_DATE);
+  if (iso) return buildDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const slash = text.match(SLASH_DATE);
+  if (slash) {
+    const [first, second, year] = [Number(slash[1]), Number(slash[2]), Number(slash[3])];
+    return format === 'mdy' ? buildDate(year, first, second) : buildDate(year, second, first);
+  }
+
+  return null;
+};
+
+export const detectDateFormat = (samples: unknown[]): DateFormat | null => {
+  let sawIso = false;
+  let dmy = 0;
+  let mdy = 0;
+  samples.forEach(sample => {
+    if (typeof sample !== 'string') return;
+    const text = sample.trim();
+    if (ISO_DATE.test(text)) {
+      sawIso = true;
+      return;
+    }
+    const slash = text.match(SLASH_DATE);
+    if (!slash) return;
+    if (Number(slash[1]) > 12) dmy++;
+    else if (Number(slash[2]) > 12) mdy++;
+  });
+  if (dmy > 0 || mdy > 0) return dmy >= mdy ? 'dmy' : 'mdy';
+  return sawIso ? 'iso' : null;
+};
+
+export const detectParseSettings = (sampleRows: RawCSVRow[], mapping: ColumnMapping): ParseSettings => {
+  const earningSamples = sampleRows.map(row => readField(row, mapping, 'earnings'));
+  const dateSamples = sampleRows.map(row => readField(row, mapping, 'date'));
+  const numberLocale = detectNumberLocale(earningSamples) || 'en';
+  // Ambiguous dd/mm vs mm/dd follows the number convention of the same export
+  const dateFormat = detectDateFormat(dateSamples) || (numberLocale === 'vi' ? 'dmy' : 'mdy');
+  return { numberLocale, dateFormat };
+};
+
+export const NUMBER_LOCALE_OPTIONS: { value: NumberLocale; label: string }[] = [
+  { value: 'en', label: '1,234.56 (EN)' },
+  { value: 'vi', label: '1.234,56 (VN)' }
+];
+
+export const DATE_FORMAT_OPTIONS: { value: DateFormat; label: string }[] = [
+  { value: 'iso', label: 'yyyy-mm-dd' },
+  { value: 'dmy', label: 'dd/mm/yyyy' },
+  { value: 'mdy', label: 'mm/dd/yyyy' }
+];
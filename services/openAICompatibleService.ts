@@ -0,0 +1,150 @@
+import { AIProviderConfig, ChatMessage, ChatToolCall, InsightFailure, InsightProvider } from "../types";
+import { buildInsightPrompt } from "./insightPromptService";
+import { INSIGHT_JSON_SCHEMA, parseInsightJson } from "./insightSchemaService";
+import { isRecord } from "./jsonService";
+
+type PostResponse = { ok: true; json: unknown } | InsightFailure;
+
+const postJson = async (config: AIProviderConfig, path: string, body: Record<string, unknown>): Promise<PostResponse> => {
+  const baseUrl = config.baseUrl?.trim().replace(/\/+$/, '');
+  if (!baseUrl) return { ok: false, provider: 'openai', code: 'missingEndpoint' };
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+  } catch (error) {
+    console.error("AI endpoint unreachable:", error);
+    return { ok: false, provider: 'openai', code: 'unreachable', detail: baseUrl };
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    return { ok: false, provider: 'openai', code: 'requestFailed', detail: `HTTP ${response.status} ${detail.slice(0, 200)}`.trim() };
+  }
+  try {
+    return { ok: true, json: await response.json() };
+  } catch (error) {
+    return { ok: false, provider: 'openai', code: 'requestFailed', detail: "Phản hồi không phải JSON" };
+  }
+};
+
+type CompletionResponse = { ok: true; message: Record<string, unknown> } | InsightFailure;
+
+const postCompletion = async (config: AIProviderConfig, body: Record<string, unknown>): Promise<CompletionResponse> => {
+  const result = await postJson(config, '/chat/completions', { model: config.model, ...body });
+  if (result.ok === false) return result;
+  const choices = isRecord(result.json) && Array.isArray(result.json.choices) ? result.json.choices : [];
+  const message = isRecord(choices[0]) ? choices[0].message : undefined;
+  if (!isRecord(message)) return { ok: false, provider: 'openai', code: 'emptyResponse' };
+  return { ok: true, message };
+};
+
+const isVector = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number');
+
+// Local servers tend to choke on very large embedding batches
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * Embeds each text with `model` through the same endpoint as chat, e.g. a
+ * local Ollama running nomic-embed-text. Vectors come back in input order.
+ */
+export const fetchEmbeddings = async (
+  texts: string[],
+  config: AIProviderConfig,
+  model: string
+): Promise<{ ok: true; vectors: number[][] } | InsightFailure> => {
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const result = await postJson(config, '/embeddings', { model, input: batch });
+    if (result.ok === false) return result;
+    const data = isRecord(result.json) && Array.isArray(result.json.data) ? result.json.data : [];
+    const items = data.filter(isRecord).filter(d => isVector(d.embedding));
+    if (data.length !== batch.length || items.length !== data.length) {
+      return { ok: false, provider: 'openai', code: 'invalidResponse', detail: `Nhận ${items.length}/${batch.length} vector` };
+    }
+    items
+      .sort((a, b) => (typeof a.index === 'number' ? a.index : 0) - (typeof b.index === 'number' ? b.index : 0))
+      .forEach(d => vectors.push(d.embedding as number[]));
+  }
+  return { ok: true, vectors };
+};
+
+const toOpenAIMessage = (message: ChatMessage) => {
+  if (message.role === 'tool') return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  if (message.role === 'assistant' && message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+const parseArguments = (value: unknown): Record<string, unknown> => {
+  if (typeof value !== 'string') return isRecord(value) ? value : {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return isRecord(parsed) ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const toToolCall = (call: unknown): ChatToolCall => {
+  const record = isRecord(call) ? call : {};
+  const fn = isRecord(record.function) ? record.function : {};
+  return {
+    id: typeof record.id === 'string' && record.id ? record.id : crypto.randomUUID(),
+    name: typeof fn.name === 'string' ? fn.name : '',
+    args: parseArguments(fn.arguments)
+  };
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local Ollama / llama.cpp / LM Studio instance. Local servers usually need
+ * no key.
+ */
+export const openAICompatibleProvider: InsightProvider = {
+  id: 'openai',
+  generate: async (request, config) => {
+    const result = await postCompletion(config, {
+      messages: [{ role: 'user', content: buildInsightPrompt(request) }],
+      response_format: { type: 'json_schema', json_schema: { name: 'insight', schema: INSIGHT_JSON_SCHEMA } }
+    });
+    if (result.ok === false) return result;
+    const text = result.message.content;
+    if (typeof text !== 'string' || !text.trim()) return { ok: false, provider: 'openai', code: 'emptyResponse' };
+    const insight = parseInsightJson(text, 'openai', config.model);
+    if (!insight) return { ok: false, provider: 'openai', code: 'invalidResponse', detail: text.slice(0, 200) };
+    return { ok: true, insight };
+  },
+  chat: async (systemPrompt, messages, tools, config) => {
+    const result = await postCompletion(config, {
+      messages: [{ role: 'system', content: systemPrompt }, ...messages.map(toOpenAIMessage)],
+      tools: tools.map(tool => ({ type: 'function', function: tool }))
+    });
+    if (result.ok === false) return result;
+    const toolCalls = (Array.isArray(result.message.tool_calls) ? result.message.tool_calls : []).map(toToolCall);
+    const content = typeof result.message.content === 'string' ? result.message.content.trim() : '';
+    if (!content && toolCalls.length === 0) return { ok: false, provider: 'openai', code: 'emptyResponse' };
+    return {
+      ok: true,
+      message: { id: crypto.randomUUID(), role: 'assistant', content, timestamp: Date.now(), ...(toolCalls.length > 0 ? { toolCalls } : {}) }
+    };
+  }
+};
@@ -0,0 +1,146 @@
+import * as XLSX from 'xlsx';
+import { CurrencyRates, Editor, LabelPayout, PayoutStatement, VideoEarning } from "../types";
+import { formatCurrency, rateFor } from "./currencyService";
+
+export const createEditor = (): Editor => ({
+  id: crypto.randomUUID(),
+  name: 'Biên tập viên mới',
+  labels: [],
+  payoutCurrency: 'VND'
+});
+
+export const findEditorForLabel = (editors: Editor[], label: string) =>
+  editors.find(e => e.labels.includes(label));
+
+// Labels in the current payout that nobody on the roster is paid for
+export const findUnassignedLabels = (editors: Editor[], payouts: LabelPayout[]) =>
+  payouts.map(p => p.label).filter(label => !findEditorForLabel(editors, label));
+
+export const buildStatements = (
+  editors: Editor[],
+  payouts: LabelPayout[],
+  videos: VideoEarning[],
+  rateForLabel: (label: string) => number,
+  currencyRates: CurrencyRates
+): PayoutStatement[] =>
+  editors.map(editor => {
+    const labels = new Set(editor.labels);
+    const editorPayouts = payouts.filter(p => labels.has(p.label));
+    const labelRates = Object.fromEntries(editorPayouts.map(p => [p.label, rateForLabel(p.label)]));
+    const bonus = editorPayouts.reduce((acc, p) => acc + p.bonus, 0);
+    const bonusVND = editorPayouts.reduce((acc, p) => acc + p.bonus * labelRates[p.label], 0);
+    const payoutAmount = editor.payoutCurrency === 'VND' ? bonusVND : bonus * rateFor(editor.payoutCurrency, 0, currencyRates);
+    return {
+      editor,
+      payouts: editorPayouts,
+      videos: videos.filter(v => labels.has(v.label)),
+      totalEarning: editorPayouts.reduce((acc, p) => acc + p.totalEarning, 0),
+      bonus,
+      bonusVND,
+      payoutAmount,
+      exchangeRate: bonus > 0 ? bonusVND / bonus : rateForLabel(editorPayouts[0]?.label ?? ''),
+      labelRates
+    };
+  });
+
+export const formatPayout = (statement: PayoutStatement) => formatCurrency(statement.payoutAmount, statement.editor.payoutCurrency);
+
+// Excel sheet names are limited to 31 characters and must be unique in a workbook
+export const toSheetName = (name: string, usedNames: string[]) => {
+  const base = name.replace(/[\[\]:*?/\\]/g, ' ').trim().slice(0, 28) || 'Phieu luong';
+  let candidate = base;
+  for (let i = 2; usedNames.includes(candidate); i++) candidate = `${base} ${i}`;
+  return candidate;
+};
+
+export const statementToSheet = (statement: PayoutStatement, period: string) => {
+  const { editor } = statement;
+  const rows: (string | number)[][] = [
+    ["PHIẾU THANH TOÁN BONUS"],
+    ["Họ tên", editor.name],
+    ["Nhãn", editor.labels.join(', ')],
+    ["Kỳ", period],
+    ["Ngân hàng", editor.bankName || ""],
+    ["Số tài khoản", editor.bankAccount || ""],
+    ["Chủ tài khoản", editor.accountHolder || ""],
+    ["Tiền tệ nhận", editor.payoutCurrency],
+    ["Tỷ giá áp dụng (VND/$)", Math.round(statement.exchangeRate)],
+    [],
+    ["Tiêu đề", "Nhãn", "Post ID", "Ngày", "Thu nhập ($)"],
+    ...statement.videos.map(v => [v.title, v.label, v.assetId || "N/A", v.date || "N/A", Number(v.totalEarning.toFixed(2))]),
+    [],
+    ["Nhãn", "Quy tắc", "Cách tính", "Bonus ($)", "Tỷ giá", "Thành tiền (VND)"],
+    ...statement.payouts.flatMap(p => p.lines.map(line => [
+      p.label,
+      line.ruleName,
+      line.description,
+      Number(line.amount.toFixed(2)),
+      Math.round(statement.labelRates[p.label]),
+      Math.round(line.amount * statement.labelRates[p.label])
+    ])),
+    [],
+    ["Tổng thu nhập ($)", Number(statement.totalEarning.toFixed(2))],
+    ["Tổng bonus ($)", Number(statement.bonus.toFixed(2))],
+    ["Tổng bonus (VND)", Math.round(statement.bonusVND)],
+    ...(editor.payoutCurrency !== 'VND' && statement.bonus > 0
+      ? [[`Tỷ giá ${editor.payoutCurrency}/$`, Number((statement.payoutAmount / statement.bonus).toFixed(4))]]
+      : []),
+    ["Thực nhận", formatPayout(statement)]
+  ];
+  return XLSX.utils.aoa_to_sheet(rows);
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+/**
+ * Opens the statement in a print-ready window; "Save as PDF" in the browser's
+ * print dialog produces the PDF payslip.
+ */
+export const printStatement = (statement: PayoutStatement, period: string) => {
+  const { editor } = statement;
+  const win = window.open('', '_blank');
+  if (!win) return false;
+
+  const info = [
+    ["Họ tên", editor.name],
+    ["Nhãn", editor.labels.join(', ')],
+    ["Kỳ", period],
+    ["Ngân hàng", editor.bankName || "—"],
+    ["Số tài khoản", editor.bankAccount || "—"],
+    ["Chủ tài khoản", editor.accountHolder || "—"],
+    ["Tỷ giá áp dụng", `${Math.round(statement.exchangeRate).toLocaleString('vi-VN')} VND/$`]
+  ].map(([k, v]) => `<tr><th>${k}</th><td>${escapeHtml(v)}</td></tr>`).join('');
+
+  const videoRows = statement.videos.map(v =>
+    `<tr><td>${escapeHtml(v.title)}</td><td>${escapeHtml(v.label)}</td><td>${escapeHtml(v.date || 'N/A')}</td><td class="num">$${v.totalEarning.toFixed(2)}</td></tr>`
+  ).join('');
+
+  const lineRows = statement.payouts.flatMap(p => p.lines.map(line =>
+    `<tr><td>${escapeHtml(p.label)}</td><td>${escapeHtml(line.ruleName)}</td><td>${escapeHtml(line.description)}</td><td class="num">$${line.amount.toFixed(2)}</td><td class="num">${Math.round(statement.labelRates[p.label]).toLocaleString('vi-VN')}</td></tr>`
+  )).join('');
+
+  win.document.write(`<!DOCTYPE html><html lang="vi"><head><meta charset="UTF-8"><title>Phiếu thanh toán - ${escapeHtml(editor.name)}</title>
+<style>
+  body { font-family: 'Inter', sans-serif; color: #1f2937; margin: 32px; font-size: 12px; }
+  h1 { font-size: 18px; margin-bottom: 16px; }
+  h2 { font-size: 13px; margin: 24px 0 8px; text-transform: uppercase; color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e5e7eb; }
+  .info th { width: 140px; color: #6b7280; font-weight: 600; }
+  .num { text-align: right; white-space: nowrap; }
+  .total { margin-top: 24px; font-size: 14px; font-weight: 700; text-align: right; }
+</style></head><body>
+<h1>Phiếu thanh toán Bonus</h1>
+<table class="info">${info}</table>
+<h2>Video (${statement.videos.length})</h2>
+<table><thead><tr><th>Tiêu đề</th><th>Nhãn</th><th>Ngày</th><th class="num">Thu nhập</th></tr></thead><tbody>${videoRows}</tbody></table>
+<h2>Chi tiết Bonus</h2>
+<table><thead><tr><th>Nhãn</th><th>Quy tắc</th><th>Cách tính</th><th class="num">Bonus</th><th class="num">Tỷ giá</th></tr></thead><tbody>${lineRows}</tbody></table>
+<p class="total">Tổng thu nhập: $${statement.totalEarning.toFixed(2)} · Bonus: $${statement.bonus.toFixed(2)} · Thực nhận: ${formatPayout(statement)}</p>
+</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
@@ -0,0 +1,130 @@
+import { InsightLabelNote, InsightLanguage, InsightPriority, InsightProvider, InsightRecommendation, InsightRequest, StructuredInsight } from "../types";
+
+// Labels with fewer videos than this are left out of "best/worst average" picks
+const MIN_VIDEOS_FOR_AVERAGE = 3;
+
+const percent = (part: number, whole: number) => whole > 0 ? (part / whole) * 100 : 0;
+
+const TEXT: Record<InsightLanguage, {
+  empty: string;
+  noData: string;
+  overview: (total: string, count: number, average: string) => string;
+  topReason: (total: string, share: string, count: number) => string;
+  best: (label: string, average: string) => string;
+  underperforming: (average: string, overall: string) => string;
+  topTier: (tier: string, videoShare: string, earningShare: string) => string;
+  risk: (low: number, count: number, share: string, threshold: number) => string;
+  highRisk: (threshold: number) => string;
+  mediumRisk: (threshold: number) => string;
+  shift: (worst: string, best: string) => string;
+  keep: (label: string, bonus: number) => string;
+}> = {
+  vi: {
+    empty: "Không có video nào trong dữ liệu đang xem.",
+    noData: "Không có dữ liệu.",
+    overview: (total, count, average) => `Tổng thu nhập ${total} USD từ ${count} video, trung bình ${average} USD/video.`,
+    topReason: (total, share, count) => `${total} USD, ${share}% tổng doanh thu từ ${count} video.`,
+    best: (label, average) => `Hiệu suất cao nhất thuộc về "${label}" (${average} USD/video).`,
+    underperforming: (average, overall) => `${average} USD/video, dưới một nửa mức trung bình ${overall} USD.`,
+    topTier: (tier, videoShare, earningShare) => `Mức "${tier}" chiếm ${videoShare}% số video nhưng đóng góp ${earningShare}% doanh thu.`,
+    risk: (low, count, share, threshold) => `${low}/${count} video (${share}%) có thu nhập dưới ${threshold} USD.`,
+    highRisk: (threshold) => `Ít nhất một nửa số video dưới ${threshold} USD: nên giảm số lượng và tập trung vào chủ đề đã chứng minh hiệu quả.`,
+    mediumRisk: (threshold) => `Rà soát lại các video dưới ${threshold} USD để tìm điểm chung.`,
+    shift: (worst, best) => `Chuyển bớt sản lượng từ "${worst}" sang "${best}" vì hiệu suất chênh lệch hơn 2 lần.`,
+    keep: (label, bonus) => `Duy trì nhịp sản xuất cho "${label}" để giữ nguồn Bonus ${bonus}% chính.`
+  },
+  en: {
+    empty: "There are no videos in the current view.",
+    noData: "No data.",
+    overview: (total, count, average) => `Total earnings of ${total} USD from ${count} videos, ${average} USD per video on average.`,
+    topReason: (total, share, count) => `${total} USD, ${share}% of total revenue from ${count} videos.`,
+    best: (label, average) => `"${label}" performs best at ${average} USD per video.`,
+    underperforming: (average, overall) => `${average} USD per video, under half the overall average of ${overall} USD.`,
+    topTier: (tier, videoShare, earningShare) => `The "${tier}" tier is ${videoShare}% of videos but brings in ${earningShare}% of revenue.`,
+    risk: (low, count, share, threshold) => `${low}/${count} videos (${share}%) earned under ${threshold} USD.`,
+    highRisk: (threshold) => `At least half of the videos earned under ${threshold} USD: produce fewer and focus on topics that have proven to work.`,
+    mediumRisk: (threshold) => `Review the videos under ${threshold} USD to find what they have in common.`,
+    shift: (worst, best) => `Move some output from "${worst}" to "${best}"; their per-video performance differs by more than 2x.`,
+    keep: (label, bonus) => `Keep up production for "${label}", the main source of the ${bonus}% bonus.`
+  }
+};
+
+/**
+ * Deterministic insight built from the numbers alone. Works offline and gives
+ * the same content for the same data, so it doubles as a baseline for the
+ * model-backed providers.
+ */
+export const summarizeWithRules = ({ data, bonusPercentage, tiers, lowEarningThreshold, language }: InsightRequest): StructuredInsight => {
+  const text = TEXT[language] || TEXT.vi;
+  const videoCount = data.videoEarnings.length;
+  const base = { provider: 'rules' as const, generatedAt: Date.now() };
+  if (videoCount === 0) {
+    return {
+      ...base,
+      summary: text.empty,
+      topLabel: null,
+      underperformingLabels: [],
+      recommendations: [],
+      lowEarningRisk: { level: 'low', note: text.noData }
+    };
+  }
+
+  const average = data.grandTotal / videoCount;
+  const summary = [text.overview(data.grandTotal.toFixed(2), videoCount, average.toFixed(2))];
+
+  const [top] = data.labelSummaries;
+  const topLabel: InsightLabelNote | null = top
+    ? { label: top.label, reason: text.topReason(top.totalEarning.toFixed(2), percent(top.totalEarning, data.grandTotal).toFixed(1), top.videoCount) }
+    : null;
+
+  const comparable = data.labelSummaries
+    .filter(l => l.videoCount >= MIN_VIDEOS_FOR_AVERAGE)
+    .map(l => ({ ...l, average: l.totalEarning / l.videoCount }))
+    .sort((a, b) => b.average - a.average);
+  const best = comparable[0];
+  const worst = comparable.length > 1 ? comparable[comparable.length - 1] : undefined;
+  if (best) summary.push(text.best(best.label, best.average.toFixed(2)));
+
+  // Under half the overall average per video counts as underperforming
+  const underperformingLabels: InsightLabelNote[] = comparable
+    .filter(l => l.average < average / 2)
+    .reverse()
+    .map(l => ({ label: l.label, reason: text.underperforming(l.average.toFixed(2), average.toFixed(2)) }));
+
+  const topTier = [...tiers].reverse().find(t => t.videoCount > 0);
+  if (topTier && topTier !== tiers[0]) {
+    summary.push(text.topTier(topTier.tier.name, percent(topTier.videoCount, videoCount).toFixed(1), percent(topTier.totalEarning, data.grandTotal).toFixed(1)));
+  }
+
+  const lowCount = data.videoEarnings.filter(v => v.totalEarning < lowEarningThreshold).length;
+  const lowShare = percent(lowCount, videoCount);
+  const riskLevel: InsightPriority = lowShare >= 50 ? 'high' : lowShare >= 20 ? 'medium' : 'low';
+  const riskNote = text.risk(lowCount, videoCount, lowShare.toFixed(1), lowEarningThreshold);
+
+  const recommendations: InsightRecommendation[] = [];
+  if (riskLevel === 'high') {
+    recommendations.push({ priority: 'high', text: text.highRisk(lowEarningThreshold) });
+  } else if (riskLevel === 'medium') {
+    recommendations.push({ priority: 'medium', text: text.mediumRisk(lowEarningThreshold) });
+  }
+  if (best && worst && best.average > worst.average * 2) {
+    recommendations.push({ priority: 'high', label: worst.label, text: text.shift(worst.label, best.label) });
+  }
+  if (top) {
+    recommendations.push({ priority: 'medium', label: top.label, text: text.keep(top.label, bonusPercentage) });
+  }
+
+  return {
+    ...base,
+    summary: summary.join(' '),
+    topLabel,
+    underperformingLabels,
+    recommendations,
+    lowEarningRisk: { level: riskLevel, note: riskNote }
+  };
+};
+
+export const ruleBasedProvider: InsightProvider = {
+  id: 'rules',
+  generate: async (request) => ({ ok: true, insight: summarizeWithRules(request) })
+};
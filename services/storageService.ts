@@ -0,0 +1,157 @@
+import { AnalysisResult, ParsedFile } from "../types";
+
+const DB_NAME = 'earning_analyst';
+const DB_VERSION = 1;
+const ANALYSES_STORE = 'analyses';
+const SOURCES_STORE = 'sources';
+const LEGACY_HISTORY_KEY = 'earning_analyst_history';
+
+interface StoredSources {
+  id: string;
+  files: ParsedFile[];
+}
+
+export interface StoredEntryInfo {
+  id: string;
+  analysisBytes: number;
+  sourceBytes: number | null; // null = raw data no longer kept
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ANALYSES_STORE)) db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SOURCES_STORE)) db.createObjectStore(SOURCES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transact = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDB();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await run(tx);
+  await done;
+  return result;
+};
+
+export const loadAnalyses = async (): Promise<AnalysisResult[]> => {
+  const items = await transact([ANALYSES_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(ANALYSES_STORE).getAll() as IDBRequest<AnalysisResult[]>)
+  );
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const putAnalyses = (items: AnalysisResult[]) =>
+  transact([ANALYSES_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(ANALYSES_STORE);
+    items.forEach(item => store.put(item));
+  });
+
+export const deleteAnalyses = (ids: string[]) =>
+  transact([ANALYSES_STORE, SOURCES_STORE], 'readwrite', tx => {
+    ids.forEach(id => {
+      tx.objectStore(ANALYSES_STORE).delete(id);
+      tx.objectStore(SOURCES_STORE).delete(id);
+    });
+  });
+
+/**
+ * Writes only what changed between two history snapshots. Entries are
+ * compared by reference, which is how React state updates replace them.
+ */
+export const syncAnalyses = async (previous: AnalysisResult[], next: AnalysisResult[]) => {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const changed = next.filter(item => previousById.get(item.id) !== item);
+  const removed = previous.filter(item => !nextIds.has(item.id)).map(item => item.id);
+  if (changed.length > 0) await putAnalyses(changed);
+  if (removed.length > 0) await deleteAnalyses(removed);
+};
+
+// The File objects of CSV sources are stored as-is; IndexedDB keeps Blobs natively
+export const saveSources = (id: string, files: ParsedFile[]) =>
+  transact([SOURCES_STORE], 'readwrite', tx => {
+    const record: StoredSources = { id, files };
+    tx.objectStore(SOURCES_STORE).put(record);
+  });
+
+export const loadSources = async (id: string): Promise<ParsedFile[] | null> => {
+  const record = await transact([SOURCES_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(SOURCES_STORE).get(id) as IDBRequest<StoredSources | undefined>)
+  );
+  return record ? record.files : null;
+};
+
+export const deleteSources = (id: string) =>
+  transact([SOURCES_STORE], 'readwrite', tx => {
+    tx.objectStore(SOURCES_STORE).delete(id);
+  });
+
+const sourceSize = (files: ParsedFile[]) =>
+  files.reduce((acc, f) => acc + (f.file ? f.file.size : new Blob([JSON.stringify(f.rows || [])]).size), 0);
+
+export const getStoredEntryInfo = async (): Promise<StoredEntryInfo[]> => {
+  const [analyses, sources] = await transact([ANALYSES_STORE, SOURCES_STORE], 'readonly', tx => Promise.all([
+    promisify(tx.objectStore(ANALYSES_STORE).getAll() as IDBRequest<AnalysisResult[]>),
+    promisify(tx.objectStore(SOURCES_STORE).getAll() as IDBRequest<StoredSources[]>)
+  ]));
+  const sourcesById = new Map(sources.map(s => [s.id, s.files]));
+  return analyses.map(item => ({
+    id: item.id,
+    analysisBytes: new Blob([JSON.stringify(item)]).size,
+    sourceBytes: sourcesById.has(item.id) ? sourceSize(sourcesById.get(item.id)!) : null
+  }));
+};
+
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/**
+ * Moves history saved by older versions from localStorage into IndexedDB,
+ * then drops the localStorage copy. Safe to call on every start.
+ */
+export const migrateLegacyHistory = async () => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+  try {
+    const parsed: AnalysisResult[] = JSON.parse(saved);
+    if (Array.isArray(parsed) && parsed.length > 0) await putAnalyses(parsed);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  } catch (e) {
+    console.error("Failed to migrate history", e);
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
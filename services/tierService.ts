@@ -0,0 +1,49 @@
+import { EarningTier, TierSummary, VideoEarning } from "../types";
+
+export const DEFAULT_LOW_EARNING_THRESHOLD = 1;
+
+export const DEFAULT_EARNING_TIERS: EarningTier[] = [
+  { id: 'tier-low', name: 'Thấp', upTo: 1 },
+  { id: 'tier-mid', name: 'Trung bình', upTo: 10 },
+  { id: 'tier-good', name: 'Tốt', upTo: 100 },
+  { id: 'tier-top', name: 'Xuất sắc', upTo: null }
+];
+
+export const sortTiers = (tiers: EarningTier[]) =>
+  [...tiers].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+
+// Earnings above every limit fall into the highest tier even when it is capped
+export const findTier = (earning: number, tiers: EarningTier[]): EarningTier | undefined => {
+  const sorted = sortTiers(tiers);
+  return sorted.find(t => t.upTo === null || earning < t.upTo) || sorted[sorted.length - 1];
+};
+
+export const summarizeTiers = (videos: VideoEarning[], tiers: EarningTier[]): TierSummary[] => {
+  const summaries = sortTiers(tiers).map((tier, i, sorted): TierSummary => ({
+    tier,
+    from: i > 0 ? sorted[i - 1].upTo : null,
+    videoCount: 0,
+    totalEarning: 0
+  }));
+  videos.forEach(v => {
+    const tier = findTier(v.totalEarning, tiers);
+    const summary = summaries.find(s => s.tier.id === tier?.id);
+    if (!summary) return;
+    summary.videoCount++;
+    summary.totalEarning += v.totalEarning;
+  });
+  return summaries;
+};
+
+export const describeTierRange = ({ from, tier }: Pick<TierSummary, 'from' | 'tier'>) => {
+  if (from === null && tier.upTo === null) return 'Mọi mức';
+  if (from === null) return `< $${tier.upTo}`;
+  if (tier.upTo === null) return `≥ $${from}`;
+  return `$${from} – $${tier.upTo}`;
+};
+
+export const createTier = (upTo: number | null): EarningTier => ({
+  id: crypto.randomUUID(),
+  name: upTo === null ? 'Mức mới' : `Dưới $${upTo}`,
+  upTo
+});
@@ -0,0 +1,61 @@
+import { TrendGranularity, TrendPoint, VideoEarning } from "../types";
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const toDateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const fromDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Weeks start on Monday and are keyed by their first day
+export const toPeriodKey = (dateKey: string, granularity: TrendGranularity) => {
+  if (granularity === 'day') return dateKey;
+  if (granularity === 'month') return dateKey.slice(0, 7);
+  const d = fromDateKey(dateKey);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return toDateKey(d);
+};
+
+export const formatPeriod = (period: string, granularity: TrendGranularity) => {
+  if (granularity === 'month') {
+    const [y, m] = period.split('-');
+    return `${m}/${y}`;
+  }
+  const d = fromDateKey(period);
+  const label = `${pad(d.getDate())}/${pad(d.getMonth() + 1)}`;
+  return granularity === 'week' ? `Tuần ${label}` : label;
+};
+
+export const addDailyEarning = (video: VideoEarning, dateKey: string, earning: number) => {
+  if (!video.dailyEarnings) video.dailyEarnings = [];
+  const existing = video.dailyEarnings.find(d => d.date === dateKey);
+  if (existing) {
+    existing.earning += earning;
+  } else {
+    video.dailyEarnings.push({ date: dateKey, earning });
+  }
+};
+
+/**
+ * Rolls the per-day earnings of every video up into one point per period,
+ * with a column per label plus the overall total.
+ */
+export const buildTrendSeries = (videos: VideoEarning[], granularity: TrendGranularity): TrendPoint[] => {
+  const points = new Map<string, TrendPoint>();
+
+  videos.forEach(video => {
+    video.dailyEarnings?.forEach(({ date, earning }) => {
+      const period = toPeriodKey(date, granularity);
+      if (!points.has(period)) {
+        points.set(period, { period, total: 0, labels: {} });
+      }
+      const point = points.get(period)!;
+      point.labels[video.label] = (point.labels[video.label] || 0) + earning;
+      point.total += earning;
+    });
+  });
+
+  return Array.from(points.values()).sort((a, b) => a.period.localeCompare(b.period));
+};
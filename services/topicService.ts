@@ -0,0 +1,212 @@
+import { TopicCluster, VideoEarning } from "../types";
+import { UNLABELED_LABEL } from "./analyticsService";
+
+type Vector = Map<string, number>;
+
+// Function words that would otherwise dominate every cluster
+const STOP_WORDS = new Set([
+  'và', 'của', 'là', 'có', 'cho', 'các', 'những', 'một', 'được', 'với', 'này', 'đó', 'khi', 'thì', 'mà', 'để',
+  'trong', 'ra', 'vào', 'lên', 'không', 'đã', 'sẽ', 'đang', 'bị', 'cũng', 'như', 'nhiều', 'rất', 'lại', 'nào',
+  'gì', 'ai', 'ở', 'từ', 'theo', 'về', 'nên', 'vì', 'nếu', 'hay', 'hoặc', 'thế', 'kia', 'đây', 'đi',
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'was', 'it', 'this', 'that',
+  'my', 'your', 'you', 'i', 'we', 'at', 'by', 'from', 'how', 'what', 'why', 'be', 'do', 'not', 'so',
+  'http', 'https', 'www', 'com', 'fyp', 'foryou', 'viral', 'xuhuong', 'trending', 'reels', 'video'
+]);
+
+// Titles say more about the topic than the boilerplate under them
+const TITLE_WEIGHT = 2;
+const MAX_ITERATIONS = 25;
+const KEYWORD_COUNT = 3;
+// Terms on more than this share of videos describe the channel, not a topic
+const MAX_DOCUMENT_SHARE = 0.5;
+
+export const OTHER_TOPIC_ID = 'other';
+
+const words = (text: string) => text
+  .toLowerCase()
+  .normalize('NFC')
+  .replace(/https?:\/\/\S+/g, ' ')
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(w => w.length > 1 && !/^\d+$/.test(w));
+
+// Vietnamese words are mostly two syllables, so adjacent pairs are kept as terms too
+const terms = (text: string) => {
+  const tokens = words(text);
+  const result: string[] = [];
+  tokens.forEach((token, i) => {
+    if (STOP_WORDS.has(token)) return;
+    result.push(token);
+    const next = tokens[i + 1];
+    if (next && !STOP_WORDS.has(next)) result.push(`${token} ${next}`);
+  });
+  return result;
+};
+
+const termCounts = (video: VideoEarning) => {
+  const counts = new Map<string, number>();
+  terms(video.title).forEach(t => counts.set(t, (counts.get(t) || 0) + TITLE_WEIGHT));
+  if (video.description) terms(video.description).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+  return counts;
+};
+
+const normalize = (vector: Vector): Vector => {
+  let norm = 0;
+  vector.forEach(v => { norm += v * v; });
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((v, k) => vector.set(k, v / norm));
+  return vector;
+};
+
+const dot = (a: Vector, b: Vector) => {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((v, k) => {
+    const w = large.get(k);
+    if (w !== undefined) sum += v * w;
+  });
+  return sum;
+};
+
+const addInto = (target: Vector, source: Vector) => {
+  source.forEach((v, k) => target.set(k, (target.get(k) || 0) + v));
+};
+
+const tfidfVectors = (videos: VideoEarning[]): Vector[] => {
+  const counts = videos.map(termCounts);
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(c => c.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  const maxFrequency = Math.max(2, videos.length * MAX_DOCUMENT_SHARE);
+  return counts.map(c => {
+    const vector: Vector = new Map();
+    c.forEach((count, term) => {
+      const df = documentFrequency.get(term)!;
+      // A term on a single video cannot group it with anything
+      if (df < 2 || df > maxFrequency) return;
+      vector.set(term, (1 + Math.log(count)) * Math.log(videos.length / df));
+    });
+    return normalize(vector);
+  });
+};
+
+const denseToVector = (values: number[]): Vector => normalize(new Map(values.map((v, i) => [String(i), v])));
+
+// Small seeded generator so the same data always gives the same clusters
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// k-means++ seeding followed by spherical k-means on cosine similarity
+const kMeans = (vectors: Vector[], k: number): number[] => {
+  const random = seededRandom(vectors.length);
+  const centroids: Vector[] = [new Map(vectors[Math.floor(random() * vectors.length)])];
+  const distance = vectors.map(v => 1 - dot(v, centroids[0]));
+  while (centroids.length < k) {
+    const total = distance.reduce((acc, d) => acc + Math.max(d, 0), 0);
+    if (total <= 0) break;
+    let pick = random() * total;
+    let index = distance.findIndex(d => (pick -= Math.max(d, 0)) <= 0);
+    if (index < 0) index = vectors.length - 1;
+    const centroid = new Map(vectors[index]);
+    centroids.push(centroid);
+    vectors.forEach((v, i) => { distance[i] = Math.min(distance[i], 1 - dot(v, centroid)); });
+  }
+
+  let assignment = vectors.map(() => -1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map(v => {
+      let best = 0;
+      let bestScore = -Infinity;
+      centroids.forEach((c, i) => {
+        const score = dot(v, c);
+        if (score > bestScore) { best = i; bestScore = score; }
+      });
+      return best;
+    });
+    const changed = next.some((a, i) => a !== assignment[i]);
+    assignment = next;
+    if (!changed) break;
+    centroids.forEach((c, i) => {
+      const sum: Vector = new Map();
+      vectors.forEach((v, j) => { if (assignment[j] === i) addInto(sum, v); });
+      // An emptied cluster keeps its old centroid and may win videos back
+      if (sum.size > 0) centroids[i] = normalize(sum);
+    });
+  }
+  return assignment;
+};
+
+// Strongest terms of the cluster, skipping words already shown inside a chosen pair
+const pickKeywords = (members: Vector[]) => {
+  const sum: Vector = new Map();
+  members.forEach(v => addInto(sum, v));
+  // Ties go to the longer term so "hà nội" wins over "hà"
+  const ranked = Array.from(sum.entries())
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)
+    .map(([term]) => term);
+  const keywords: string[] = [];
+  for (const term of ranked) {
+    if (keywords.length >= KEYWORD_COUNT) break;
+    const parts = term.split(' ');
+    const overlaps = keywords.some(k => {
+      const chosen = k.split(' ');
+      return parts.every(p => chosen.includes(p)) || chosen.every(c => parts.includes(c));
+    });
+    if (!overlaps) keywords.push(term);
+  }
+  return keywords;
+};
+
+const summarizeCluster = (id: string, videos: VideoEarning[], keywords: string[]): TopicCluster => {
+  const totalEarning = videos.reduce((acc, v) => acc + v.totalEarning, 0);
+  const labels = new Map<string, number>();
+  videos.forEach(v => labels.set(v.label, (labels.get(v.label) || 0) + 1));
+  return {
+    id,
+    keywords,
+    videos: [...videos].sort((a, b) => b.totalEarning - a.totalEarning),
+    videoCount: videos.length,
+    totalEarning,
+    averageEarning: videos.length > 0 ? totalEarning / videos.length : 0,
+    labels: Array.from(labels.entries())
+      .map(([label, videoCount]) => ({ label, videoCount }))
+      .sort((a, b) => b.videoCount - a.videoCount),
+    unlabeledCount: labels.get(UNLABELED_LABEL) || 0
+  };
+};
+
+export const topicName = (keywords: string[]) => keywords.length > 0 ? keywords.join(' · ') : 'Không xác định';
+
+// Text sent to an embedding model for a video
+export const topicText = (video: VideoEarning) => [video.title, video.description].filter(Boolean).join('\n');
+
+export const suggestTopicCount = (videoCount: number) =>
+  Math.min(12, Math.max(2, Math.round(Math.sqrt(videoCount / 2))));
+
+/**
+ * Groups videos into topics from their titles and descriptions, ignoring the
+ * labels editors typed. TF-IDF vectors are used unless `embeddings` (one per
+ * video, same order) are given; keywords always come from TF-IDF. Videos with
+ * no usable terms end up in a trailing OTHER_TOPIC_ID bucket.
+ */
+export const clusterTopics = (videos: VideoEarning[], topicCount: number, embeddings?: number[][]): TopicCluster[] => {
+  const tfidf = tfidfVectors(videos);
+  const vectors = embeddings ? embeddings.map(denseToVector) : tfidf;
+  const usable = vectors.map((v, i) => i).filter(i => vectors[i].size > 0);
+  const leftovers = videos.filter((_, i) => vectors[i].size === 0);
+
+  const k = Math.min(topicCount, usable.length);
+  const assignment = k > 0 ? kMeans(usable.map(i => vectors[i]), k) : [];
+  const clusters: TopicCluster[] = [];
+  for (let c = 0; c < k; c++) {
+    const members = usable.filter((_, j) => assignment[j] === c);
+    if (members.length === 0) continue;
+    clusters.push(summarizeCluster(`topic-${c}`, members.map(i => videos[i]), pickKeywords(members.map(i => tfidf[i]))));
+  }
+  clusters.sort((a, b) => b.totalEarning - a.totalEarning);
+  if (leftovers.length > 0) clusters.push(summarizeCluster(OTHER_TOPIC_ID, leftovers, []));
+  return clusters;
+};
@@ -0,0 +1,70 @@
+import { UrlViewState } from "../types";
+
+// Short keys keep shared links readable
+const KEYS = {
+  analysisId: 'a',
+  label: 'l',
+  hashtag: 'h',
+  hideLowEarnings: 'low',
+  hideLowEarningLabels: 'lowl',
+  lowEarningThreshold: 'lt',
+  bonusPercentage: 'b',
+  exchangeRate: 'r'
+};
+
+// Settings that change on every keystroke replace the current history entry instead of adding one
+const INPUT_KEYS = [KEYS.lowEarningThreshold, KEYS.bonusPercentage, KEYS.exchangeRate];
+
+/**
+ * Serialises the view into a URL hash. When every label is selected the list
+ * is left out entirely; an empty `l=` marks an explicit empty selection.
+ */
+export const encodeViewState = (state: UrlViewState, allLabels: string[]): string => {
+  const params = new URLSearchParams();
+  if (state.analysisId) params.set(KEYS.analysisId, state.analysisId);
+  const labels = state.selectedLabels;
+  const selectsAll = labels && labels.length === allLabels.length && allLabels.every(l => labels.includes(l));
+  if (labels && !selectsAll) {
+    if (labels.length === 0) params.append(KEYS.label, '');
+    labels.forEach(l => params.append(KEYS.label, l));
+  }
+  state.selectedHashtags.forEach(tag => params.append(KEYS.hashtag, tag));
+  if (state.hideLowEarnings) params.set(KEYS.hideLowEarnings, '1');
+  if (state.hideLowEarningLabels) params.set(KEYS.hideLowEarningLabels, '1');
+  if (state.lowEarningThreshold !== undefined) params.set(KEYS.lowEarningThreshold, String(state.lowEarningThreshold));
+  if (state.bonusPercentage !== undefined) params.set(KEYS.bonusPercentage, String(state.bonusPercentage));
+  if (state.exchangeRate !== undefined) params.set(KEYS.exchangeRate, String(state.exchangeRate));
+  const query = params.toString();
+  return query ? `#${query}` : '';
+};
+
+const toNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const n = Number(value);
+  return isFinite(n) ? n : undefined;
+};
+
+export const decodeViewState = (hash: string): UrlViewState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const labels = params.getAll(KEYS.label);
+  return {
+    analysisId: params.get(KEYS.analysisId) || undefined,
+    selectedLabels: params.has(KEYS.label) ? labels.filter(l => l !== '') : undefined,
+    selectedHashtags: params.getAll(KEYS.hashtag),
+    hideLowEarnings: params.get(KEYS.hideLowEarnings) === '1',
+    hideLowEarningLabels: params.get(KEYS.hideLowEarningLabels) === '1',
+    lowEarningThreshold: toNumber(params.get(KEYS.lowEarningThreshold)),
+    bonusPercentage: toNumber(params.get(KEYS.bonusPercentage)),
+    exchangeRate: toNumber(params.get(KEYS.exchangeRate))
+  };
+};
+
+// True when two hashes differ only in typed-in settings, not in what is selected
+export const differsOnlyInInputs = (a: string, b: string) => {
+  const strip = (hash: string) => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    INPUT_KEYS.forEach(key => params.delete(key));
+    return params.toString();
+  };
+  return strip(a) === strip(b);
+};
@@ -16,6 +16,11 @@ export interface RawCSVRow {
   [key: string]: any;
 }
 
+export interface DailyEarning {
+  date: string; // yyyy-mm-dd
+  earning: number;
+}
+
 export interface VideoEarning {
   title: string;
   label: string;
@@ -23,6 +28,28 @@ export interface VideoEarning {
   assetId?: string;
   date?: string;
   hashtags: string[];
+  description?: string; // first non-empty one seen, shortened; older analyses lack it
+  sourceFiles?: string[];
+  dailyEarnings?: DailyEarning[];
+}
+
+export interface VideoConflict {
+  assetId: string;
+  titles: { title: string; earning: number }[];
+  labels: { label: string; earning: number }[];
+  resolvedTitle: string;
+  resolvedLabel: string;
+  manuallyResolved?: boolean;
+}
+
+// A video from a file without IDs whose title matches exactly one video with a Post ID
+export interface TitleMatch {
+  title: string;
+  assetId: string;
+  earning: number;
+  overlapDays: number; // days both videos have earnings on
+  overlapEarning: number;
+  merged?: boolean;
 }
 
 export interface LabelSummary {
@@ -42,6 +69,413 @@ export interface AnalysisResult {
   startDate?: string;
   endDate?: string;
   allHashtags: string[];
-  aiInsight?: string | null;
+  aiInsight?: StructuredInsight | string | null; // plain strings come from older versions
+  chat?: ChatMessage[];
   missingColumns: string[];
+  sourceFiles?: string[];
+  duplicateRowCount?: number;
+  parseWarnings?: ParseWarning[];
+  parseWarningCount?: number;
+  conflicts?: VideoConflict[];
+  titleMatches?: TitleMatch[];
+  payoutLock?: PayoutLock;
+  auditLog?: AuditEntry[];
+  payoutCurrency?: PayoutCurrency; // output currency of this analysis, VND when unset
+}
+
+export type ColumnField = 'title' | 'label' | 'earnings' | 'date' | 'assetId' | 'description';
+
+export type ColumnMapping = Partial<Record<ColumnField, string>>;
+
+export interface ColumnPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export type NumberLocale = 'en' | 'vi'; // 1,234.56 vs 1.234,56
+export type DateFormat = 'iso' | 'dmy' | 'mdy';
+
+export interface ParseSettings {
+  numberLocale: NumberLocale;
+  dateFormat: DateFormat;
+}
+
+export interface ParseWarning {
+  fileName: string;
+  row: number; // 1-based, counting the header line
+  field: ColumnField;
+  value: string;
+}
+
+export interface ParsedFile {
+  fileName: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  presetId?: string;
+  parseSettings: ParseSettings;
+  detectedSettings: ParseSettings;
+  file?: File; // CSV sources are streamed from the file inside the worker
+  rows?: RawCSVRow[]; // spreadsheet sheets arrive already read
+  sampleRows: RawCSVRow[];
+}
+
+export interface AnalysisOptions {
+  id?: string;
+  timestamp?: number;
+  lowEarningThreshold?: number;
+}
+
+export interface FilterSpec {
+  selectedLabels: string[];
+  selectedHashtags: string[];
+  hideLowEarnings: boolean;
+  hideLowEarningLabels: boolean;
+  lowEarningThreshold?: number; // USD; filters saved before this existed used $1
+}
+
+export interface EarningTier {
+  id: string;
+  name: string;
+  upTo: number | null; // USD, exclusive; null = no upper limit
+}
+
+export interface TierSummary {
+  tier: EarningTier;
+  from: number | null; // previous tier's upper limit; null for the lowest tier
+  videoCount: number;
+  totalEarning: number;
+}
+
+export type VideoSortKey = 'title' | 'label' | 'date' | 'assetId' | 'totalEarning';
+
+export type VideoTableColumn = 'label' | 'date' | 'hashtags' | 'assetId';
+
+export interface VideoQuery {
+  search: string;
+  dateFrom?: string; // yyyy-mm-dd, inclusive
+  dateTo?: string;
+  minEarning?: number;
+  maxEarning?: number;
+  sortKey: VideoSortKey;
+  sortDir: 'asc' | 'desc';
+}
+
+export interface UrlViewState {
+  analysisId?: string;
+  selectedLabels?: string[]; // undefined = every label of the analysis
+  selectedHashtags: string[];
+  hideLowEarnings: boolean;
+  hideLowEarningLabels: boolean;
+  lowEarningThreshold?: number; // USD; the `low`/`lowl` flags hide rows below it
+  bonusPercentage?: number;
+  exchangeRate?: number;
+}
+
+export interface EfficiencyStats {
+  efficiencies: number[];
+  max: number;
+  average: number;
+}
+
+export interface HashtagSummary {
+  tag: string;
+  videoCount: number;
+  totalEarning: number;
+  averageEarning: number;
+  lowEarningCount: number;
+  lowEarningShare: number; // 0..1
+}
+
+export interface HashtagPair {
+  tags: [string, string];
+  videoCount: number;
+  totalEarning: number;
+}
+
+export type HashtagRankMetric = 'totalEarning' | 'averageEarning' | 'videoCount';
+
+export type TopicMethod = 'tfidf' | 'embedding';
+
+export interface TopicCluster {
+  id: string;
+  keywords: string[]; // most distinctive terms, best first; empty for the leftover bucket
+  videos: VideoEarning[]; // highest earning first
+  videoCount: number;
+  totalEarning: number;
+  averageEarning: number;
+  labels: { label: string; videoCount: number }[];
+  unlabeledCount: number;
+}
+
+export type AnalysisWorkerRequest = { type: 'analyze'; files: ParsedFile[]; options?: AnalysisOptions };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; rowsProcessed: number; progress: number }
+  | { type: 'done'; result: AnalysisResult }
+  | { type: 'error'; message: string };
+
+export interface MetricDelta {
+  previous: number;
+  current: number;
+  delta: number;
+  percentChange: number | null;
+}
+
+export interface LabelComparison {
+  label: string;
+  totalEarning: MetricDelta;
+  videoCount: MetricDelta;
+  earningPerVideo: MetricDelta;
+}
+
+export interface VideoComparison {
+  title: string;
+  label: string;
+  assetId?: string;
+  totalEarning: MetricDelta;
+}
+
+export interface InsightComparison {
+  previous: StructuredInsight;
+  current: StructuredInsight;
+  newlyUnderperforming: string[];
+  recovered: string[]; // underperforming before, not any more
+}
+
+export interface PeriodComparison {
+  labels: LabelComparison[];
+  commonVideos: VideoComparison[];
+  grandTotal: MetricDelta;
+  insights?: InsightComparison; // only when both periods have a structured insight
+}
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export interface TrendPoint {
+  period: string;
+  total: number;
+  labels: Record<string, number>;
+}
+
+export type BonusRuleType = 'percentage' | 'tiered' | 'perVideo' | 'minimum';
+
+export interface BonusTier {
+  upTo: number | null; // null = no upper bound
+  rate: number;
+}
+
+export interface BonusRule {
+  id: string;
+  name: string;
+  type: BonusRuleType;
+  labels: string[]; // empty = applies to every label
+  rate?: number;
+  tiers?: BonusTier[];
+  perVideoAmount?: number;
+  minVideoEarning?: number;
+  minimumPayout?: number;
+}
+
+export interface PayoutLine {
+  ruleId: string;
+  ruleName: string;
+  description: string;
+  amount: number;
+}
+
+export interface LabelPayout {
+  label: string;
+  totalEarning: number;
+  videoCount: number;
+  bonus: number;
+  lines: PayoutLine[];
+}
+
+export interface ExchangeRateEntry {
+  period: string; // yyyy-mm for a whole month, yyyy-mm-dd for a single day
+  rate: number;
+}
+
+export type RateBasis = 'videoDate' | 'payoutDate';
+
+export type PayoutCurrency = 'VND' | 'USD' | 'THB' | 'PHP' | 'EUR';
+
+// Units of each currency per 1 USD; VND comes from the exchange rate table instead
+export type CurrencyRates = Partial<Record<PayoutCurrency, number>>;
+
+export interface Editor {
+  id: string;
+  name: string;
+  labels: string[]; // custom labels this person is paid for
+  bankName?: string;
+  bankAccount?: string;
+  accountHolder?: string;
+  payoutCurrency: PayoutCurrency;
+}
+
+export interface PayoutStatement {
+  editor: Editor;
+  payouts: LabelPayout[];
+  videos: VideoEarning[];
+  totalEarning: number;
+  bonus: number; // USD
+  bonusVND: number;
+  payoutAmount: number; // in the editor's payout currency
+  exchangeRate: number; // effective VND/USD rate across the person's labels
+  labelRates: Record<string, number>;
+}
+
+export interface WorkspaceSettings {
+  exchangeRate: number;
+  bonusPercentage: number;
+  bonusRules: BonusRule[];
+  columnPresets: ColumnPreset[];
+  editors?: Editor[];
+  exchangeRates?: ExchangeRateEntry[];
+  rateBasis?: RateBasis;
+  currencyRates?: CurrencyRates;
+  lowEarningThreshold?: number;
+  earningTiers?: EarningTier[];
+  activeAnalysisId?: string;
+  filters?: FilterSpec;
+}
+
+export interface WorkspaceBackup {
+  version: number;
+  exportedAt: number;
+  history: AnalysisResult[];
+  settings: WorkspaceSettings;
+}
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface PayoutLock {
+  lockedAt: number;
+  exchangeRate: number; // fallback rate for dates the rate table does not cover
+  exchangeRates?: ExchangeRateEntry[];
+  rateBasis?: RateBasis;
+  currencyRates?: CurrencyRates;
+  payoutDate?: string;
+  labelRates?: Record<string, number>;
+  bonusPercentage: number;
+  bonusRules: BonusRule[];
+  editors: Editor[];
+  filters: FilterSpec;
+  earningTiers?: EarningTier[]; // tiers of the export's "Loại" column and tier sheet
+  payouts: LabelPayout[]; // exactly what was paid, not recomputed later
+  totalBonus: number;
+}
+
+export type AuditAction = 'lock' | 'unlock' | 'recompute' | 'resolveConflict' | 'restore';
+
+export interface AuditChange {
+  field: string;
+  oldValue: string | number | null;
+  newValue: string | number | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  action: AuditAction;
+  changes: AuditChange[];
+  note?: string;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'rules';
+
+export type InsightPriority = 'high' | 'medium' | 'low';
+
+export interface InsightLabelNote {
+  label: string;
+  reason: string;
+}
+
+export interface InsightRecommendation {
+  priority: InsightPriority;
+  text: string;
+  label?: string;
+}
+
+export interface StructuredInsight {
+  summary: string;
+  topLabel: InsightLabelNote | null;
+  underperformingLabels: InsightLabelNote[];
+  recommendations: InsightRecommendation[];
+  lowEarningRisk: { level: InsightPriority; note: string };
+  provider: AIProviderId;
+  model?: string;
+  generatedAt: number;
+}
+
+export type InsightLanguage = 'vi' | 'en';
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1
+  apiKey?: string;
+  language?: InsightLanguage; // defaults to Vietnamese
+}
+
+export interface InsightRequest {
+  data: AnalysisResult; // already filtered to what the user is looking at
+  filters: string; // human-readable description of those filters
+  bonusPercentage: number;
+  tiers: TierSummary[];
+  lowEarningThreshold: number;
+  language: InsightLanguage;
+}
+
+export type InsightErrorCode = 'missingApiKey' | 'missingEndpoint' | 'unreachable' | 'requestFailed' | 'emptyResponse' | 'invalidResponse' | 'chatUnsupported' | 'tooManyToolCalls';
+
+export interface InsightFailure {
+  ok: false;
+  provider: AIProviderId;
+  code: InsightErrorCode;
+  detail?: string;
+}
+
+export type InsightResult = { ok: true; insight: StructuredInsight } | InsightFailure;
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  signature?: string; // opaque token Gemini expects echoed back with the call
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'tool';
+  content: string; // tool messages hold the JSON result
+  toolCalls?: ChatToolCall[]; // assistant turns that ask for data
+  toolCallId?: string;
+  toolName?: string;
+  timestamp: number;
+}
+
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema
+}
+
+export type ChatCompletionResult = { ok: true; message: ChatMessage } | InsightFailure;
+
+export type ChatTurnResult = { ok: true; messages: ChatMessage[] } | InsightFailure;
+
+export interface InsightProvider {
+  id: AIProviderId;
+  generate: (request: InsightRequest, config: AIProviderConfig) => Promise<InsightResult>;
+  // Providers without function calling leave this out
+  chat?: (systemPrompt: string, messages: ChatMessage[], tools: ChatToolDefinition[], config: AIProviderConfig) => Promise<ChatCompletionResult>;
+}
+
+export interface ChatContext {
+  videos: VideoEarning[];
+  lowEarningThreshold: number;
+  tiers: EarningTier[];
+  language: InsightLanguage;
 }
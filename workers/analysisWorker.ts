@@ -0,0 +1,63 @@
+import Papa from 'papaparse';
+import { AnalysisOptions, AnalysisWorkerRequest, AnalysisWorkerResponse, ParsedFile, RawCSVRow } from '../types';
+import { createAggregator } from '../services/analyticsService';
+
+const ctx = self as unknown as Worker;
+
+const ROW_BATCH_SIZE = 5000;
+const CSV_CHUNK_SIZE = 1024 * 1024;
+
+const post = (message: AnalysisWorkerResponse) => ctx.postMessage(message);
+
+const streamCSV = (file: File, onRows: (rows: RawCSVRow[], bytesRead: number) => void): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse<RawCSVRow>(file, {
+      header: true,
+      skipEmptyLines: true,
+      chunkSize: CSV_CHUNK_SIZE,
+      chunk: (results) => onRows(results.data, results.meta.cursor),
+      complete: () => resolve(),
+      error: reject
+    });
+  });
+};
+
+const analyze = async (files: ParsedFile[], options: AnalysisOptions = {}) => {
+  const aggregator = createAggregator();
+  // Progress is weighted by bytes for streamed CSVs and by rows for pre-read sheets
+  const weights = files.map(f => f.file ? f.file.size : (f.rows?.length || 0));
+  const totalWeight = weights.reduce((a, b) => a + b, 0) || 1;
+  let completedWeight = 0;
+
+  const report = (currentWeight: number) => post({
+    type: 'progress',
+    rowsProcessed: aggregator.getRowCount(),
+    progress: Math.min((completedWeight + currentWeight) / totalWeight, 1)
+  });
+
+  for (let i = 0; i < files.length; i++) {
+    const source = files[i];
+    const { file, rows } = source;
+    if (file) {
+      await streamCSV(file, (chunk, bytesRead) => {
+        aggregator.addRows(chunk, source);
+        report(bytesRead);
+      });
+    } else if (rows) {
+      for (let start = 0; start < rows.length; start += ROW_BATCH_SIZE) {
+        aggregator.addRows(rows.slice(start, start + ROW_BATCH_SIZE), source);
+        report(Math.min(start + ROW_BATCH_SIZE, rows.length));
+      }
+    }
+    completedWeight += weights[i];
+  }
+
+  post({ type: 'done', result: aggregator.finish(files, options) });
+};
+
+ctx.addEventListener('message', (event: MessageEvent<AnalysisWorkerRequest>) => {
+  if (event.data.type !== 'analyze') return;
+  analyze(event.data.files, event.data.options).catch(err => {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  });
+});